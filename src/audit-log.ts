@@ -0,0 +1,109 @@
+import { Client, Colors, EmbedBuilder, TextChannel } from "discord.js";
+import { AuditAction, AuditEntry, AuditPlatform, AuditRepository } from "./storage/audit-repository";
+import { GuildSettings, GuildSettingsRepository } from "./storage/guild-settings-repository";
+import { logger } from "./logger";
+
+export const AUDIT_ACTION_NAMES: Record<AuditAction, string> = {
+    'vip-add': 'VIP agregado',
+    'vip-remove': 'VIP quitado',
+    'vip-expire': 'VIP vencido',
+    'tag-create': 'Tag creado',
+    'tag-merge': 'Tag unido',
+    'mention-delete': 'Mención borrada',
+    'auth-login': 'Sesión de Twitch iniciada',
+    'auth-failed': 'Sesión de Twitch fallida'
+};
+
+export const AUDIT_PLATFORM_NAMES: Record<AuditPlatform, string> = {
+    twitch: 'Twitch',
+    discord: 'Discord',
+    bot: 'Bot'
+};
+
+// The fields filled in by whoever records the entry
+export type AuditRecord = Pick<AuditEntry, 'platform' | 'action' | 'actor'> & Partial<Pick<AuditEntry, 'target' | 'detail' | 'guildId'>>;
+
+export type AuditRecorder = (record: AuditRecord) => Promise<void>;
+
+type ErrorReporter = (error: unknown, guildId?: string) => void;
+
+// Keeps who did what in the database and copies it to the audit channel of the guilds.
+// Entries of a guild go to that guild, Twitch and bot entries go to every guild with an audit channel.
+// Recording never throws, a moderator action must not fail because the log did.
+export class AuditLog {
+    constructor(
+        private client: Client,
+        private repository: AuditRepository,
+        private settingsRepository: GuildSettingsRepository,
+        private reportError: ErrorReporter
+    ) { }
+
+    async record(record: AuditRecord): Promise<void> {
+        let entry: AuditEntry;
+        try {
+            entry = await this.repository.addEntry({
+                target: null,
+                detail: null,
+                guildId: null,
+                ...record,
+                createdAt: new Date()
+            });
+        } catch (error) {
+            this.reportError(error, record.guildId ?? undefined);
+            return;
+        }
+
+        logger.info('Audit entry', { action: entry.action, actor: entry.actor, target: entry.target, platform: entry.platform, guildId: entry.guildId });
+        await this.mirror(entry);
+    }
+
+    private async mirror(entry: AuditEntry) {
+        let allSettings: GuildSettings[];
+        try {
+            allSettings = entry.guildId
+                ? [await this.settingsRepository.getSettings(entry.guildId)]
+                : await this.settingsRepository.getAllSettings();
+        } catch (error) {
+            this.reportError(error, entry.guildId ?? undefined);
+            return;
+        }
+
+        for (const settings of allSettings) {
+            if (!settings.auditChannelId) continue;
+
+            try {
+                const channel = await this.client.channels.fetch(settings.auditChannelId) as TextChannel;
+                await channel.send({ embeds: [buildAuditEmbed(entry)], allowedMentions: { parse: [] } });
+            } catch (error) {
+                this.reportError(error, settings.guildId);
+            }
+        }
+    }
+}
+
+export function describeAuditEntry(entry: AuditEntry): string {
+    const time = `<t:${Math.floor(entry.createdAt.getTime() / 1000)}:f>`;
+    const target = entry.target ? ` → ${entry.target}` : '';
+    const detail = entry.detail ? `: ${entry.detail}` : '';
+    return `${time} **${AUDIT_ACTION_NAMES[entry.action]}** (${AUDIT_PLATFORM_NAMES[entry.platform]}) ${entry.actor}${target}${detail}`;
+}
+
+function buildAuditEmbed(entry: AuditEntry): EmbedBuilder {
+    const embed = new EmbedBuilder()
+        .setColor(entry.action === 'auth-failed' || entry.action === 'mention-delete' ? Colors.Red : Colors.Blurple)
+        .setTitle(AUDIT_ACTION_NAMES[entry.action])
+        .addFields(
+            { name: 'Quién', value: entry.actor, inline: true },
+            { name: 'Plataforma', value: AUDIT_PLATFORM_NAMES[entry.platform], inline: true }
+        )
+        .setTimestamp(entry.createdAt)
+
+    if (entry.target) {
+        embed.addFields({ name: 'A quién', value: entry.target, inline: true });
+    }
+    if (entry.detail) {
+        embed.setDescription(entry.detail.slice(0, 4096));
+    }
+
+    return embed;
+}
@@ -0,0 +1,39 @@
+import { describeIdentity, IDENTITY_SCOPES, LinkedIdentity, TWITCH_IDENTITIES } from './twitch-connector';
+
+// The page at /auth, shows which accounts are linked and links to the OAuth flow of each one
+export function renderAuthStatusPage(identities: LinkedIdentity[]): string {
+    const rows = TWITCH_IDENTITIES.map(identity => {
+        const linked = identities.find(entry => entry.identity === identity);
+        const missing = IDENTITY_SCOPES[identity].filter(scope => !linked?.scopes.includes(scope));
+
+        return `<tr>
+            <td>${escapeHtml(describeIdentity(identity))}</td>
+            <td>${linked ? escapeHtml(linked.userName) : '<em>Not linked</em>'}</td>
+            <td>${linked ? escapeHtml(linked.scopes.join(', ')) || '<em>None</em>' : ''}</td>
+            <td>${linked && missing.length > 0 ? `Missing ${escapeHtml(missing.join(', '))}` : ''}</td>
+            <td><a href="/auth/${identity}">${linked ? 'Link again' : 'Link'}</a></td>
+        </tr>`;
+    });
+
+    return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>Botshi - Twitch accounts</title></head>
+<body>
+    <h1>Twitch accounts</h1>
+    <p>The bot chats as the bot account. The streamer account is only used for VIPs, the channel info and the stream events. Both may be the same account.</p>
+    <p>Twitch asks for the account you are logged in with, use "Not you?" on its page to link another one.</p>
+    <table border="1" cellpadding="6">
+        <tr><th>Identity</th><th>Account</th><th>Scopes</th><th></th><th></th></tr>
+        ${rows.join('\n        ')}
+    </table>
+</body>
+</html>`;
+}
+
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
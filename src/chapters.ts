@@ -0,0 +1,116 @@
+import { StreamTag } from "./stream";
+
+export interface Chapter {
+    start: number;
+    title: string;
+}
+
+export interface ChapterOptions {
+    // Everything is in milliseconds of the original vod
+    trimStart?: number;
+    trimEnd?: number;
+    // Added to every chapter after trimming, ie. for an intro that is not part of the vod
+    offset?: number;
+    // Length of the uploaded video, when known the last chapter is kept long enough too
+    videoDuration?: number;
+    introTitle?: string;
+}
+
+// YouTube ignores chapters shorter than this
+export const MIN_CHAPTER_LENGTH_MS = 10000;
+// and needs at least this many to show them at all
+export const MIN_CHAPTER_COUNT = 3;
+
+const DEFAULT_INTRO_TITLE = 'Inicio';
+
+// Builds a chapter list that follows YouTube's rules: the first chapter starts at 0:00,
+// chapters are in order and every chapter is at least 10 seconds long.
+// Tags that are too close to the previous chapter are merged into it.
+export function generateChapters(tags: StreamTag[], options: ChapterOptions = {}): Chapter[] {
+    const trimStart = options.trimStart ?? 0;
+    const trimEnd = options.trimEnd ?? Infinity;
+    const offset = options.offset ?? 0;
+    const videoEnd = options.videoDuration ?? Infinity;
+
+    const candidates = tags
+        .filter(tag => tag.relativeTimestamp >= trimStart && tag.relativeTimestamp < trimEnd)
+        .map(tag => ({ start: tag.relativeTimestamp - trimStart + offset, title: cleanTitle(tag.message) }))
+        .filter(chapter => chapter.start >= 0 && chapter.title)
+        .sort((a, b) => a.start - b.start);
+
+    const chapters: Chapter[] = [{ start: 0, title: options.introTitle ?? DEFAULT_INTRO_TITLE }];
+    let introReplaced = false;
+
+    for (const candidate of candidates) {
+        const previous = chapters[chapters.length - 1];
+
+        // A tag right at the beginning takes the place of the intro chapter
+        if (previous.start === 0 && !introReplaced && candidate.start < MIN_CHAPTER_LENGTH_MS) {
+            previous.title = candidate.title;
+            introReplaced = true;
+            continue;
+        }
+
+        if (candidate.start - previous.start < MIN_CHAPTER_LENGTH_MS) {
+            previous.title = mergeTitles(previous.title, candidate.title);
+            continue;
+        }
+
+        chapters.push({ ...candidate });
+    }
+
+    // The last chapter must also last long enough before the video ends
+    while (chapters.length > 1 && videoEnd - chapters[chapters.length - 1].start < MIN_CHAPTER_LENGTH_MS) {
+        const last = chapters.pop()!;
+        const previous = chapters[chapters.length - 1];
+        previous.title = mergeTitles(previous.title, last.title);
+    }
+
+    return chapters;
+}
+
+export function formatChapters(chapters: Chapter[]): string {
+    return chapters.map(chapter => `${formatYoutubeTime(chapter.start)} ${chapter.title}`).join('\n');
+}
+
+// 0:00, 10:00 or 1:00:00 like YouTube shows them
+export function formatYoutubeTime(timeDiffMs: number): string {
+    const totalSeconds = Math.max(Math.floor(timeDiffMs / 1000), 0);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+
+    if (hours > 0) {
+        return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}`;
+    }
+    return `${minutes}:${seconds}`;
+}
+
+// Accepts seconds (90), clock times (1:30, 1:02:03) or twitch times (1h2m3s), optionally signed.
+// Returns milliseconds or null when the text can't be read.
+export function parseTimeInput(text: string): number | null {
+    const input = text.trim().toLowerCase();
+    const sign = input.startsWith('-') ? -1 : 1;
+    const value = input.replace(/^[+-]/, '');
+
+    if (/^\d+(:\d{1,2}){0,2}$/.test(value)) {
+        const seconds = value.split(':').reduce((total, part) => total * 60 + Number.parseInt(part), 0);
+        return sign * seconds * 1000;
+    }
+
+    const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+    if (match && value) {
+        const [, hours = '0', minutes = '0', seconds = '0'] = match;
+        return sign * (Number.parseInt(hours) * 3600 + Number.parseInt(minutes) * 60 + Number.parseInt(seconds)) * 1000;
+    }
+
+    return null;
+}
+
+function cleanTitle(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+function mergeTitles(first: string, second: string): string {
+    return first === second ? first : `${first} / ${second}`;
+}
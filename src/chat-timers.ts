@@ -0,0 +1,90 @@
+import { TimedMessage, TimedMessageRepository } from "./storage/timed-message-repository";
+import { logger } from "./logger";
+
+// Sends the message, returns false when it was not sent
+export type TimerSender = (message: string) => Promise<boolean>;
+
+export const TIMER_TICK_MS = 30 * 1000;
+
+interface TimerState {
+    lastPostedAt: number;
+    chatLinesAtLastPost: number;
+}
+
+// Posts the timed messages in the chat while the stream is live.
+// A timer posts once its interval has passed and the chat has written enough messages since its last post.
+// The timers are read again on every tick so they follow the changes made from Discord.
+export class ChatTimers {
+    private timer: NodeJS.Timeout | null = null;
+    private states = new Map<string, TimerState>();
+    private chatLines = 0;
+    private ticking = false;
+
+    constructor(
+        private repository: TimedMessageRepository,
+        private send: TimerSender,
+        private reportError: (error: unknown) => void,
+        private tickMs: number = TIMER_TICK_MS
+    ) { }
+
+    get running(): boolean {
+        return this.timer !== null;
+    }
+
+    // Timers wait a whole interval after the stream starts
+    start() {
+        if (this.timer) return;
+        this.states.clear();
+        this.chatLines = 0;
+        this.timer = setInterval(() => this.tick(), this.tickMs);
+        logger.info('Chat timers started');
+    }
+
+    stop() {
+        if (!this.timer) return;
+        clearInterval(this.timer);
+        this.timer = null;
+        logger.info('Chat timers stopped');
+    }
+
+    countChatLine() {
+        if (this.timer) this.chatLines++;
+    }
+
+    private async tick() {
+        // A slow send must not post the same timer twice
+        if (this.ticking) return;
+        this.ticking = true;
+
+        try {
+            const timers = await this.repository.getTimers();
+            const now = Date.now();
+
+            // One message per tick, so timers that come due together are spread out.
+            // The one that waited the longest goes first.
+            const due = timers
+                .filter(timer => this.isDue(timer, now))
+                .sort((a, b) => this.states.get(a.name)!.lastPostedAt - this.states.get(b.name)!.lastPostedAt)[0];
+            if (due && await this.send(due.message)) {
+                this.states.set(due.name, { lastPostedAt: now, chatLinesAtLastPost: this.chatLines });
+            }
+        } catch (error) {
+            this.reportError(error);
+        } finally {
+            this.ticking = false;
+        }
+    }
+
+    private isDue(timer: TimedMessage, now: number): boolean {
+        if (!timer.enabled) return false;
+
+        let state = this.states.get(timer.name);
+        if (!state) {
+            state = { lastPostedAt: now, chatLinesAtLastPost: this.chatLines };
+            this.states.set(timer.name, state);
+        }
+
+        return now - state.lastPostedAt >= timer.intervalMinutes * 60 * 1000
+            && this.chatLines - state.chatLinesAtLastPost >= timer.minChatLines;
+    }
+}
@@ -0,0 +1,43 @@
+import { BotCommand, BotCommandContext } from '@twurple/easy-bot';
+import { GuardedCommand } from './guarded-command';
+import { ChannelSettingsRepository } from './storage/channel-settings-repository';
+
+// Forgets expired cooldowns once there are this many
+const CLEANUP_SIZE = 1000;
+
+// Commands used again during their cooldown are ignored without a reply, so spamming them doesn't spam the chat
+export class CommandCooldowns {
+    // When each command, or each command for a user, can be used again
+    private availableAt = new Map<string, number>();
+
+    constructor(private repository: ChannelSettingsRepository) { }
+
+    // Returns false when the command is in cooldown, otherwise starts the cooldown
+    async tryUse(channel: string, command: string, userName: string): Promise<boolean> {
+        const { globalSeconds, userSeconds } = await this.repository.getCooldown(channel, command);
+        const now = Date.now();
+        const globalKey = `${channel.toLowerCase()}:${command}`;
+        const userKey = `${globalKey}:${userName.toLowerCase()}`;
+
+        if ((this.availableAt.get(globalKey) ?? 0) > now || (this.availableAt.get(userKey) ?? 0) > now) {
+            return false;
+        }
+
+        if (this.availableAt.size >= CLEANUP_SIZE) this.cleanup(now);
+        if (globalSeconds > 0) this.availableAt.set(globalKey, now + globalSeconds * 1000);
+        if (userSeconds > 0) this.availableAt.set(userKey, now + userSeconds * 1000);
+        return true;
+    }
+
+    guard(command: BotCommand, cooldownName: string = command.name): BotCommand {
+        return new GuardedCommand(command, (_params, { broadcasterName, userName }: BotCommandContext) =>
+            this.tryUse(broadcasterName, cooldownName, userName)
+        );
+    }
+
+    private cleanup(now: number) {
+        for (const [key, time] of this.availableAt) {
+            if (time <= now) this.availableAt.delete(key);
+        }
+    }
+}
@@ -0,0 +1,88 @@
+import { BotCommand, BotCommandContext } from '@twurple/easy-bot';
+import { GuardedCommand } from './guarded-command';
+import {
+    DEFAULT_COMMAND_PERMISSIONS,
+    DEFAULT_PERMISSION_LEVEL,
+    PermissionLevel,
+    PermissionRepository
+} from './storage/permission-repository';
+
+export const PERMISSION_LEVELS: PermissionLevel[] = ['everyone', 'subscriber', 'vip', 'editor', 'moderator', 'broadcaster'];
+
+// Spanish names, accepted by !perm as well as the English ones
+const LEVEL_NAMES: Record<PermissionLevel, string> = {
+    everyone: 'todos',
+    subscriber: 'suscriptores',
+    vip: 'vips',
+    editor: 'editores',
+    moderator: 'moderadores',
+    broadcaster: 'streamer'
+};
+
+const LEVEL_SHORTHANDS: Record<string, PermissionLevel> = {
+    sub: 'subscriber',
+    mod: 'moderator',
+    mods: 'moderator'
+};
+
+// Commands whose level can't be changed, so the broadcaster can't lock themselves out
+const LOCKED_COMMANDS = ['perm'];
+
+export function parsePermissionLevel(text: string): PermissionLevel | null {
+    const input = text.toLowerCase();
+    const level = PERMISSION_LEVELS.find(level => level === input || LEVEL_NAMES[level] === input);
+    return level ?? LEVEL_SHORTHANDS[input] ?? null;
+}
+
+export function describePermissionLevel(level: PermissionLevel): string {
+    return LEVEL_NAMES[level];
+}
+
+export class CommandPermissions {
+    constructor(private repository: PermissionRepository) { }
+
+    async getLevel(channel: string, command: string): Promise<PermissionLevel> {
+        const levels = await this.repository.getLevels(channel);
+        return levels.get(command) ?? DEFAULT_COMMAND_PERMISSIONS[command] ?? DEFAULT_PERMISSION_LEVEL;
+    }
+
+    // Returns false for commands that can't be changed
+    async setLevel(channel: string, command: string, level: PermissionLevel): Promise<boolean> {
+        if (LOCKED_COMMANDS.includes(command)) return false;
+        await this.repository.setLevel(channel, command, level);
+        return true;
+    }
+
+    // The highest level the chatter has
+    async getUserLevel({ msg, broadcasterName, userName }: BotCommandContext): Promise<PermissionLevel> {
+        const { userInfo } = msg;
+        if (userInfo.isBroadcaster) return 'broadcaster';
+        if (userInfo.isMod) return 'moderator';
+
+        const editors = await this.repository.getEditors(broadcasterName);
+        if (editors.includes(userName.toLowerCase())) return 'editor';
+
+        if (userInfo.isVip) return 'vip';
+        if (userInfo.isSubscriber || userInfo.isFounder) return 'subscriber';
+        return 'everyone';
+    }
+
+    async hasLevel(context: BotCommandContext, level: PermissionLevel): Promise<boolean> {
+        const userLevel = await this.getUserLevel(context);
+        return PERMISSION_LEVELS.indexOf(userLevel) >= PERMISSION_LEVELS.indexOf(level);
+    }
+
+    // Checks the level of the command before running it
+    guard(command: BotCommand, permissionName: string = command.name): BotCommand {
+        return new GuardedCommand(command, async (_params, context) => {
+            const level = await this.getLevel(context.broadcasterName, permissionName);
+
+            if (!await this.hasLevel(context, level)) {
+                const who = level === 'broadcaster' ? 'el streamer puede' : `los ${describePermissionLevel(level)} pueden`;
+                context.reply(`Solo ${who} usar este comando.`);
+                return false;
+            }
+            return true;
+        });
+    }
+}
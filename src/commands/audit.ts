@@ -0,0 +1,75 @@
+import { ChatInputCommandInteraction, Colors, EmbedBuilder, PermissionFlagsBits, SlashCommandBuilder } from "discord.js";
+import { auditRepository } from "..";
+import { AUDIT_ACTION_NAMES, describeAuditEntry } from "../audit-log";
+import { parseDuration } from "../duration";
+import { AuditAction } from "../storage/audit-repository";
+
+const MAX_ENTRIES = 25;
+
+export const data = new SlashCommandBuilder()
+    .setName("audit")
+    .setDescription("Ver el registro de acciones de los mods en Twitch y Discord")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .setDMPermission(false)
+    .addStringOption(option =>
+        option.setName('user')
+            .setDescription('quién hizo la acción o a quién se le hizo')
+            .setMaxLength(32)
+    )
+    .addStringOption(option =>
+        option.setName('action')
+            .setDescription('la acción')
+            .addChoices(
+                ...Object.entries(AUDIT_ACTION_NAMES).map(([value, name]) => ({ name, value }))
+            )
+    )
+    .addStringOption(option =>
+        option.setName('since')
+            .setDescription('qué tan atrás buscar, ie. 30m, 12h, 7d o 2w')
+            .setMaxLength(10)
+    );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    if (!interaction.inGuild()) {
+        return interaction.reply({ content: "Este comando solo funciona en un servidor.", ephemeral: true });
+    }
+
+    const user = interaction.options.getString('user')?.trim() || null
+    const action = interaction.options.getString('action') as AuditAction | null
+    const sinceText = interaction.options.getString('since')
+    const sinceMs = parseDuration(sinceText ?? undefined)
+
+    if (sinceText && !sinceMs) {
+        return interaction.reply({ content: "El tiempo se escribe así: 30m, 12h, 7d o 2w.", ephemeral: true });
+    }
+
+    const entries = await auditRepository.getEntries({
+        guildId: interaction.guildId,
+        user,
+        action,
+        since: sinceMs ? new Date(Date.now() - sinceMs) : null,
+        limit: MAX_ENTRIES
+    })
+
+    const filters = [
+        user && `usuario ${user}`,
+        action && AUDIT_ACTION_NAMES[action],
+        sinceText && `últimos ${sinceText}`
+    ].filter(Boolean).join(', ')
+
+    // Embed descriptions allow 4096 characters, whole lines are dropped from the oldest
+    let description = ''
+    for (const entry of entries) {
+        const line = describeAuditEntry(entry).slice(0, 500)
+        if (description.length + line.length + 1 > 4096) break;
+        description += `${line}\n`
+    }
+
+    const embed = new EmbedBuilder()
+        .setColor(Colors.Blurple)
+        .setTitle('Registro de acciones')
+        .setDescription(description || 'No hay acciones registradas')
+        .setFooter({ text: `${filters ? `${filters}. ` : ''}Se muestran las ${MAX_ENTRIES} más recientes` })
+
+    return interaction.reply({ embeds: [embed], ephemeral: true });
+}
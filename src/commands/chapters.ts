@@ -0,0 +1,80 @@
+import { AttachmentBuilder, ChatInputCommandInteraction, SlashCommandBuilder } from "discord.js";
+import { formatChapters, generateChapters, MIN_CHAPTER_COUNT, parseTimeInput } from "../chapters";
+import { formatRelativeTime } from "../stream";
+import { findVodStream } from "../vod-stream";
+
+export const data = new SlashCommandBuilder()
+    .setName("chapters")
+    .setDescription("Generar capítulos de YouTube con los tags de un vod")
+    .addStringOption(option =>
+        option.setName('vodid')
+            .setDescription('el id del vod del que quieres capítulos')
+            .setRequired(true)
+    )
+    .addStringOption(option =>
+        option.setName('offset')
+            .setDescription('tiempo que se suma a cada capítulo, ej. 0:30 o -15')
+    )
+    .addStringOption(option =>
+        option.setName('trim_start')
+            .setDescription('momento del vod donde empieza el video, ej. 1:02:03')
+    )
+    .addStringOption(option =>
+        option.setName('trim_end')
+            .setDescription('momento del vod donde termina el video, ej. 2h10m0s')
+    );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    const times: Record<string, number | undefined> = {}
+
+    for (const name of ['offset', 'trim_start', 'trim_end']) {
+        const text = interaction.options.getString(name)
+        if (text === null) continue;
+
+        const value = parseTimeInput(text)
+        if (value === null) {
+            return interaction.reply(`No entiendo el tiempo \`${text}\` de ${name}. Usa segundos, 1:02:03 o 1h2m3s.`);
+        }
+        times[name] = value
+    }
+
+    const trimStart = times['trim_start'] ?? 0
+    const trimEnd = times['trim_end']
+
+    if (trimEnd !== undefined && trimEnd <= trimStart) {
+        return interaction.reply("trim_end tiene que ser después de trim_start.");
+    }
+
+    const found = await findVodStream(interaction)
+    if (!found) return;
+
+    const { vod, tags } = found
+    const offset = times['offset'] ?? 0
+    const videoEnd = Math.min(trimEnd ?? Infinity, vod.durationInSeconds * 1000)
+
+    const chapters = generateChapters(tags, {
+        trimStart,
+        trimEnd,
+        offset,
+        videoDuration: videoEnd - trimStart + offset
+    })
+
+    const text = formatChapters(chapters)
+    const trimmed = trimStart > 0 || trimEnd !== undefined ?
+        ` (del ${formatRelativeTime(trimStart)} al ${formatRelativeTime(videoEnd)} del vod)` :
+        ''
+    let content = `Capítulos para ${vod.title}${trimmed}:`
+
+    if (chapters.length < MIN_CHAPTER_COUNT) {
+        content += `\nYouTube necesita al menos ${MIN_CHAPTER_COUNT} capítulos para mostrarlos, solo hay ${chapters.length}.`
+    }
+
+    const message = `${content}\n\`\`\`\n${text}\n\`\`\``
+
+    if (message.length <= 2000) {
+        return interaction.reply(message);
+    }
+
+    const file = new AttachmentBuilder(Buffer.from(text, 'utf-8'), { name: `chapters.${vod.id}.txt` })
+    return interaction.reply({ content, files: [file] });
+}
@@ -0,0 +1,128 @@
+import { ChatInputCommandInteraction, Colors, EmbedBuilder, PermissionFlagsBits, SlashCommandBuilder } from "discord.js";
+import { customCommandRepository, isReservedCommandName } from "..";
+import { answersOn, COMMAND_VARIABLE_NAMES, parseCommandName } from "../custom-commands";
+
+const VARIABLES_HINT = `Variables: ${COMMAND_VARIABLE_NAMES.map(name => `{${name}}`).join(', ')}`;
+
+export const data = new SlashCommandBuilder()
+    .setName("command")
+    .setDescription("Administrar los comandos de texto de este servidor")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .setDMPermission(false)
+    .addSubcommand(subcommand =>
+        subcommand.setName('add')
+            .setDescription('Crear un comando')
+            .addStringOption(option =>
+                option.setName('name')
+                    .setDescription('el nombre, sin !')
+                    .setRequired(true)
+                    .setMaxLength(25)
+            )
+            .addStringOption(option =>
+                option.setName('response')
+                    .setDescription('la respuesta, puede usar {user}, {touser}, {uptime}, {tagcount} y {channel}')
+                    .setRequired(true)
+                    .setMaxLength(500)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('edit')
+            .setDescription('Editar la respuesta de un comando')
+            .addStringOption(option =>
+                option.setName('name')
+                    .setDescription('el nombre, sin !')
+                    .setRequired(true)
+                    .setMaxLength(25)
+            )
+            .addStringOption(option =>
+                option.setName('response')
+                    .setDescription('la respuesta nueva')
+                    .setRequired(true)
+                    .setMaxLength(500)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('delete')
+            .setDescription('Borrar un comando')
+            .addStringOption(option =>
+                option.setName('name')
+                    .setDescription('el nombre, sin !')
+                    .setRequired(true)
+                    .setMaxLength(25)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('list')
+            .setDescription('Ver los comandos')
+    );
+
+// Commands made here belong to the server and only answer in it, the ones of the Twitch channel are changed from its chat
+export async function execute(interaction: ChatInputCommandInteraction) {
+    if (!interaction.inGuild()) {
+        return interaction.reply({ content: "Este comando solo funciona en un servidor.", ephemeral: true });
+    }
+
+    const subcommand = interaction.options.getSubcommand()
+
+    if (subcommand === 'list') {
+        return interaction.reply({ embeds: [await describeCommands(interaction.guildId)], ephemeral: true });
+    }
+
+    const name = parseCommandName(interaction.options.getString('name', true))
+    if (!name) {
+        return interaction.reply({ content: "El nombre solo puede tener letras, números, - y _.", ephemeral: true });
+    }
+
+    const existing = await customCommandRepository.getCommand(name, interaction.guildId)
+
+    if (subcommand !== 'add' && !existing) {
+        const channelCommand = await customCommandRepository.getCommand(name, null)
+        return interaction.reply({
+            content: channelCommand
+                ? `!${name} es un comando del canal de Twitch, cámbialo desde el chat con !editcom o !delcom.`
+                : `!${name} no existe${subcommand === 'edit' ? ', créalo con /command add' : ''}.`,
+            ephemeral: true
+        });
+    }
+
+    if (subcommand === 'delete') {
+        await customCommandRepository.deleteCommand(name, interaction.guildId)
+        return interaction.reply({ content: `Se borró !${name}.`, ephemeral: true });
+    }
+
+    if (subcommand === 'add' && (existing || await isReservedCommandName(name))) {
+        return interaction.reply({ content: `!${name} ya existe.`, ephemeral: true });
+    }
+
+    const saved = await customCommandRepository.saveCommand({
+        guildId: interaction.guildId,
+        name,
+        response: interaction.options.getString('response', true),
+        platform: 'discord',
+        updatedBy: interaction.user.username,
+        updatedAt: new Date()
+    })
+
+    return interaction.reply({
+        content: `Se ${subcommand === 'add' ? 'creó' : 'editó'} !${saved.name} en este servidor.\n${VARIABLES_HINT}`,
+        ephemeral: true
+    });
+}
+
+// The server's commands, then the ones of the Twitch channel that answer here too
+async function describeCommands(guildId: string): Promise<EmbedBuilder> {
+    const commands = await customCommandRepository.getCommands(guildId)
+    const channelCommands = (await customCommandRepository.getCommands(null))
+        .filter(command => answersOn(command, 'discord') && !commands.some(({ name }) => name === command.name))
+
+    const lines = [
+        ...commands.map(command => `**!${command.name}**: ${command.response}`),
+        ...channelCommands.map(command => `**!${command.name}** (canal de Twitch): ${command.response}`)
+    ]
+
+    return new EmbedBuilder()
+        .setColor(Colors.Blurple)
+        .setTitle('Comandos de texto')
+        .setDescription((lines.join('\n') || 'No hay comandos').slice(0, 4096))
+        .setFooter({ text: VARIABLES_HINT })
+}
@@ -1,9 +1,39 @@
 import * as ping from "./ping";
 import * as tagstwitch from "./tagstwitch";
 import * as tagssrt from "./tagssrt"
+import * as tagedit from "./tagedit";
+import * as tagdelete from "./tagdelete";
+import * as tagrevert from "./tagrevert";
+import * as tagsexport from "./tagsexport";
+import * as chapters from "./chapters";
+import * as tagsshift from "./tagsshift";
+import * as mentionguard from "./mentionguard";
+import * as infractions from "./infractions";
+import * as pardon from "./pardon";
+import * as settings from "./settings";
+import * as status from "./status";
+import * as command from "./command";
+import * as timer from "./timer";
+import * as vip from "./vip";
+import * as audit from "./audit";
 
 export const commands = {
   ping,
   tagstwitch,
-  tagssrt
-};
\ No newline at end of file
+  tagssrt,
+  tagedit,
+  tagdelete,
+  tagrevert,
+  tagsexport,
+  chapters,
+  tagsshift,
+  mentionguard,
+  infractions,
+  pardon,
+  settings,
+  status,
+  command,
+  timer,
+  vip,
+  audit
+};
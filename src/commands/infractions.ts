@@ -0,0 +1,146 @@
+import { ChatInputCommandInteraction, Colors, EmbedBuilder, PermissionFlagsBits, SlashCommandBuilder } from "discord.js";
+import { infractionRepository } from "..";
+import { describeStep, ESCALATION_ACTIONS, getDecayCutoff, getEscalationStep, MAX_TIMEOUT_MINUTES } from "../infractions";
+import { EscalationAction, EscalationSettings } from "../storage/infraction-repository";
+
+// Embed descriptions allow 4096 characters, older infractions are left out
+const MAX_LISTED = 20;
+
+export const data = new SlashCommandBuilder()
+    .setName("infractions")
+    .setDescription("Ver los strikes por mencionar y configurar sus consecuencias")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ModerateMembers)
+    .setDMPermission(false)
+    .addSubcommand(subcommand =>
+        subcommand.setName('user')
+            .setDescription('Ver los strikes de un usuario')
+            .addUserOption(option =>
+                option.setName('user')
+                    .setDescription('el usuario')
+                    .setRequired(true)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('escalation')
+            .setDescription('Ver las consecuencias de cada strike')
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('step')
+            .setDescription('Cambiar la consecuencia al llegar a un número de strikes')
+            .addIntegerOption(option =>
+                option.setName('strikes')
+                    .setDescription('número de strikes')
+                    .setMinValue(1)
+                    .setRequired(true)
+            )
+            .addStringOption(option =>
+                option.setName('action')
+                    .setDescription('la consecuencia')
+                    .setRequired(true)
+                    .addChoices(
+                        { name: 'advertir', value: 'warn' },
+                        { name: 'aislar', value: 'timeout' },
+                        { name: 'avisar a los mods', value: 'flag' }
+                    )
+            )
+            .addIntegerOption(option =>
+                option.setName('minutes')
+                    .setDescription('minutos de aislamiento')
+                    .setMinValue(1)
+                    .setMaxValue(MAX_TIMEOUT_MINUTES)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('removestep')
+            .setDescription('Quitar la consecuencia de un número de strikes')
+            .addIntegerOption(option =>
+                option.setName('strikes')
+                    .setDescription('número de strikes')
+                    .setMinValue(1)
+                    .setRequired(true)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('decay')
+            .setDescription('Cambiar cuántos días cuenta un strike')
+            .addIntegerOption(option =>
+                option.setName('days')
+                    .setDescription('días')
+                    .setMinValue(1)
+                    .setRequired(true)
+            )
+    );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    if (!interaction.inGuild()) {
+        return interaction.reply({ content: "Este comando solo funciona en un servidor.", ephemeral: true });
+    }
+
+    const guildId = interaction.guildId
+    const settings = await infractionRepository.getEscalation(guildId)
+
+    switch (interaction.options.getSubcommand()) {
+        case 'user': {
+            const user = interaction.options.getUser('user', true)
+            const infractions = await infractionRepository.getInfractions(guildId, user.id)
+            const cutoff = getDecayCutoff(settings)
+            const strikes = infractions.filter(infraction => !infraction.pardonedAt && infraction.createdAt > cutoff).length
+
+            const lines = infractions.slice(0, MAX_LISTED).map(infraction => {
+                const status = infraction.pardonedAt
+                    ? ' (perdonado)'
+                    : infraction.createdAt <= cutoff ? ' (expirado)' : ''
+                const link = infraction.messageUrl ? ` ${infraction.messageUrl}` : ''
+                return `\`#${infraction.id}\` <t:${Math.floor(infraction.createdAt.getTime() / 1000)}:d> ${infraction.ruleName}${status}${link}`
+            })
+
+            const embed = new EmbedBuilder()
+                .setColor(strikes > 0 ? Colors.Red : Colors.Green)
+                .setAuthor({ name: user.displayName, iconURL: user.displayAvatarURL() })
+                .setTitle(`${strikes} strikes activos`)
+                .setDescription(lines.join('\n') || 'No tiene infracciones.')
+                .addFields({ name: 'Siguiente strike', value: describeStep(getEscalationStep(settings.steps, strikes + 1)) })
+                .setFooter({ text: `Los strikes cuentan ${settings.decayDays} días` })
+
+            return interaction.reply({ embeds: [embed], ephemeral: true });
+        }
+        case 'escalation':
+            return interaction.reply({ content: describeEscalation(settings), ephemeral: true });
+        case 'step': {
+            const strikes = interaction.options.getInteger('strikes', true)
+            const action = interaction.options.getString('action', true) as EscalationAction
+            const minutes = interaction.options.getInteger('minutes')
+
+            if (!ESCALATION_ACTIONS.includes(action)) {
+                return interaction.reply({ content: "Esa consecuencia no existe.", ephemeral: true });
+            }
+            if (action === 'timeout' && !minutes) {
+                return interaction.reply({ content: "Indica los minutos de aislamiento.", ephemeral: true });
+            }
+
+            const step = action === 'timeout' ? { strikes, action, durationMinutes: minutes! } : { strikes, action }
+            settings.steps = [...settings.steps.filter(existing => existing.strikes !== strikes), step]
+            break;
+        }
+        case 'removestep': {
+            const strikes = interaction.options.getInteger('strikes', true)
+            if (!settings.steps.some(step => step.strikes === strikes)) {
+                return interaction.reply({ content: `No hay consecuencia para ${strikes} strikes.`, ephemeral: true });
+            }
+            settings.steps = settings.steps.filter(step => step.strikes !== strikes)
+            break;
+        }
+        case 'decay':
+            settings.decayDays = interaction.options.getInteger('days', true)
+            break;
+    }
+
+    await infractionRepository.saveEscalation(settings)
+    const saved = await infractionRepository.getEscalation(guildId)
+    return interaction.reply({ content: `Se actualizaron las consecuencias.\n${describeEscalation(saved)}`, ephemeral: true });
+}
+
+function describeEscalation({ steps, decayDays }: EscalationSettings): string {
+    const lines = steps.map(step => `${step.strikes} strikes: ${describeStep(step)}`)
+    return `${lines.join('\n') || 'Sin consecuencias.'}\nLos strikes cuentan ${decayDays} días.`
+}
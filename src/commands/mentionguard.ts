@@ -0,0 +1,228 @@
+import {
+    ChannelType,
+    ChatInputCommandInteraction,
+    EmbedBuilder,
+    Colors,
+    PermissionFlagsBits,
+    SlashCommandBuilder,
+    SlashCommandStringOption
+} from "discord.js";
+import { mentionRuleRepository } from "..";
+import { createMentionRule, isImageUrl, MENTION_ACTIONS } from "../mention-guard";
+import { MentionAction, MentionRule } from "../storage/mention-rule-repository";
+
+function ruleOption(option: SlashCommandStringOption) {
+    return option.setName('rule')
+        .setDescription('el nombre de la regla')
+        .setRequired(true)
+        .setMaxLength(50)
+}
+
+function actionOption(option: SlashCommandStringOption) {
+    return option.setName('action')
+        .setDescription('qué hacer con los mensajes que rompen la regla')
+        .addChoices(
+            { name: 'borrar', value: 'delete' },
+            { name: 'advertir', value: 'warn' },
+            { name: 'advertir y borrar', value: 'both' }
+        )
+}
+
+export const data = new SlashCommandBuilder()
+    .setName("mentionguard")
+    .setDescription("Configurar las reglas contra menciones")
+    .setDefaultMemberPermissions(PermissionFlagsBits.Administrator)
+    .setDMPermission(false)
+    .addSubcommand(subcommand =>
+        subcommand.setName('list')
+            .setDescription('Ver las reglas')
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('create')
+            .setDescription('Crear una regla')
+            .addStringOption(ruleOption)
+            .addStringOption(actionOption)
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('delete')
+            .setDescription('Borrar una regla')
+            .addStringOption(ruleOption)
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('action')
+            .setDescription('Cambiar lo que hace una regla')
+            .addStringOption(ruleOption)
+            .addStringOption(option => actionOption(option).setRequired(true))
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('warning')
+            .setDescription('Cambiar el mensaje de advertencia')
+            .addStringOption(ruleOption)
+            .addStringOption(option =>
+                option.setName('text')
+                    .setDescription('advertencia para menciones con @')
+                    .setMaxLength(1000)
+            )
+            .addStringOption(option =>
+                option.setName('reply_text')
+                    .setDescription('advertencia para respuestas que mencionan')
+                    .setMaxLength(1000)
+            )
+            .addStringOption(option =>
+                option.setName('image')
+                    .setDescription('url de la imagen para respuestas, "none" para quitarla')
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('protect')
+            .setDescription('Proteger un rol o usuario de menciones')
+            .addStringOption(ruleOption)
+            .addMentionableOption(option =>
+                option.setName('target')
+                    .setDescription('rol o usuario')
+                    .setRequired(true)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('unprotect')
+            .setDescription('Dejar de proteger un rol o usuario')
+            .addStringOption(ruleOption)
+            .addMentionableOption(option =>
+                option.setName('target')
+                    .setDescription('rol o usuario')
+                    .setRequired(true)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('exempt')
+            .setDescription('Permitir que un rol mencione, o quitarle el permiso si ya lo tiene')
+            .addStringOption(ruleOption)
+            .addRoleOption(option =>
+                option.setName('role')
+                    .setDescription('el rol')
+                    .setRequired(true)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('channel')
+            .setDescription('Permitir menciones en un canal, o quitar el permiso si ya lo tiene')
+            .addStringOption(ruleOption)
+            .addChannelOption(option =>
+                option.setName('channel')
+                    .setDescription('el canal')
+                    .addChannelTypes(ChannelType.GuildText, ChannelType.GuildAnnouncement, ChannelType.GuildForum)
+                    .setRequired(true)
+            )
+    );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    if (!interaction.inGuild() || !interaction.memberPermissions.has(PermissionFlagsBits.Administrator)) {
+        return interaction.reply({ content: "Solo los administradores pueden usar este comando.", ephemeral: true });
+    }
+
+    const subcommand = interaction.options.getSubcommand()
+    const guildId = interaction.guildId
+
+    if (subcommand === 'list') {
+        const rules = await mentionRuleRepository.getRules(guildId)
+        if (rules.length === 0) {
+            return interaction.reply({ content: "No hay reglas. Crea una con `/mentionguard create`.", ephemeral: true });
+        }
+        return interaction.reply({ embeds: rules.slice(0, 10).map(describeRule), ephemeral: true });
+    }
+
+    const name = interaction.options.getString('rule', true)
+
+    if (subcommand === 'create') {
+        if (await mentionRuleRepository.getRule(guildId, name)) {
+            return interaction.reply({ content: `La regla ${name} ya existe.`, ephemeral: true });
+        }
+        const action = (interaction.options.getString('action') ?? 'both') as MentionAction
+        const rule = await mentionRuleRepository.saveRule(createMentionRule(guildId, name, action))
+        return interaction.reply({ content: `Se creó la regla ${name}. Agrega roles con \`/mentionguard protect\`.`, embeds: [describeRule(rule)], ephemeral: true });
+    }
+
+    if (subcommand === 'delete') {
+        const deleted = await mentionRuleRepository.deleteRule(guildId, name)
+        return interaction.reply({ content: deleted ? `Se borró la regla ${name}.` : `La regla ${name} no existe.`, ephemeral: true });
+    }
+
+    const rule = await mentionRuleRepository.getRule(guildId, name)
+
+    if (!rule) {
+        return interaction.reply({ content: `La regla ${name} no existe.`, ephemeral: true });
+    }
+
+    switch (subcommand) {
+        case 'action': {
+            const action = interaction.options.getString('action', true) as MentionAction
+            if (!MENTION_ACTIONS.includes(action)) {
+                return interaction.reply({ content: "Esa acción no existe.", ephemeral: true });
+            }
+            rule.action = action
+            break;
+        }
+        case 'warning': {
+            const text = interaction.options.getString('text')
+            const replyText = interaction.options.getString('reply_text')
+            const image = interaction.options.getString('image')
+            const removeImage = image?.toLowerCase() === 'none'
+            if (image && !removeImage && !isImageUrl(image)) {
+                return interaction.reply({ content: "La imagen tiene que ser un enlace http o https, o none para quitarla.", ephemeral: true });
+            }
+            if (text) rule.warningText = text;
+            if (replyText) rule.replyWarningText = replyText;
+            if (image) rule.warningImage = removeImage ? null : image;
+            break;
+        }
+        case 'protect':
+        case 'unprotect': {
+            // The raw option tells roles and users apart even when they are not cached
+            const target = interaction.options.get('target', true)
+            const list = target.role ? rule.protectedRoles : rule.protectedUsers
+            const id = String(target.value)
+            if (subcommand === 'protect') {
+                if (!list.includes(id)) list.push(id);
+            } else {
+                list.splice(0, list.length, ...list.filter(entry => entry !== id))
+            }
+            break;
+        }
+        case 'exempt':
+            toggle(rule.exemptRoles, interaction.options.getRole('role', true).id)
+            break;
+        case 'channel':
+            toggle(rule.allowedChannels, interaction.options.getChannel('channel', true).id)
+            break;
+    }
+
+    const saved = await mentionRuleRepository.saveRule(rule)
+    return interaction.reply({ content: `Se actualizó la regla ${name}.`, embeds: [describeRule(saved)], ephemeral: true });
+}
+
+function toggle(list: string[], id: string) {
+    const index = list.indexOf(id)
+    if (index >= 0) {
+        list.splice(index, 1)
+    } else {
+        list.push(id)
+    }
+}
+
+function describeRule(rule: MentionRule): EmbedBuilder {
+    const mentions = (ids: string[], format: (id: string) => string) => ids.map(format).join(', ') || 'ninguno'
+
+    return new EmbedBuilder()
+        .setColor(Colors.Orange)
+        .setTitle(`Regla ${rule.name}`)
+        .addFields(
+            { name: 'Acción', value: rule.action, inline: true },
+            { name: 'Roles protegidos', value: mentions(rule.protectedRoles, id => `<@&${id}>`) },
+            { name: 'Usuarios protegidos', value: mentions(rule.protectedUsers, id => `<@${id}>`) },
+            { name: 'Roles que pueden mencionar', value: mentions(rule.exemptRoles, id => `<@&${id}>`) },
+            { name: 'Canales permitidos', value: mentions(rule.allowedChannels, id => `<#${id}>`) },
+            { name: 'Advertencia', value: rule.warningText },
+            { name: 'Advertencia en respuestas', value: rule.replyWarningText },
+            { name: 'Imagen', value: rule.warningImage ?? 'ninguna' }
+        )
+}
@@ -0,0 +1,38 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits, SlashCommandBuilder } from "discord.js";
+import { infractionRepository } from "..";
+
+export const data = new SlashCommandBuilder()
+    .setName("pardon")
+    .setDescription("Perdonar los strikes de un usuario")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ModerateMembers)
+    .setDMPermission(false)
+    .addUserOption(option =>
+        option.setName('user')
+            .setDescription('el usuario')
+            .setRequired(true)
+    )
+    .addIntegerOption(option =>
+        option.setName('infraction')
+            .setDescription('el número de la infracción, si no se indica se perdonan todas')
+            .setMinValue(1)
+    );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    if (!interaction.inGuild()) {
+        return interaction.reply({ content: "Este comando solo funciona en un servidor.", ephemeral: true });
+    }
+
+    const user = interaction.options.getUser('user', true)
+    const infractionId = interaction.options.getInteger('infraction') ?? undefined
+
+    const pardoned = await infractionRepository.pardonInfractions(interaction.guildId, user.id, interaction.user.username, infractionId)
+
+    if (pardoned === 0) {
+        const content = infractionId
+            ? `${user.displayName} no tiene la infracción #${infractionId} o ya fue perdonada.`
+            : `${user.displayName} no tiene infracciones por perdonar.`
+        return interaction.reply({ content, ephemeral: true });
+    }
+
+    return interaction.reply(`Se ${pardoned === 1 ? 'perdonó 1 infracción' : `perdonaron ${pardoned} infracciones`} de ${user.displayName}.`);
+}
@@ -0,0 +1,161 @@
+import { ChannelType, ChatInputCommandInteraction, Colors, EmbedBuilder, PermissionFlagsBits, SlashCommandBuilder } from "discord.js";
+import { guildSettingsRepository } from "..";
+import { GuildSettings } from "../storage/guild-settings-repository";
+
+// The settings that can be cleared
+type SettingKey = { [K in keyof GuildSettings]: null extends GuildSettings[K] ? K : never }[keyof GuildSettings];
+
+const SETTING_NAMES: Record<SettingKey, string> = {
+    modChannelId: 'Canal de mods',
+    logChannelId: 'Canal de reportes',
+    errorChannelId: 'Canal de errores',
+    vanityCode: 'Link personalizado',
+    ownerId: 'Dueño',
+    announcementChannelId: 'Canal de anuncios',
+    announcementRoleId: 'Rol de anuncios',
+    announcementMessage: 'Mensaje de anuncios',
+    auditChannelId: 'Canal de auditoría'
+};
+
+const TEXT_CHANNELS = [ChannelType.GuildText, ChannelType.GuildAnnouncement] as const;
+
+export const data = new SlashCommandBuilder()
+    .setName("settings")
+    .setDescription("Configurar el bot en este servidor")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .setDMPermission(false)
+    .addSubcommand(subcommand =>
+        subcommand.setName('show')
+            .setDescription('Ver la configuración')
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('set')
+            .setDescription('Cambiar la configuración, solo cambia lo que indiques')
+            .addChannelOption(option =>
+                option.setName('mod_channel')
+                    .setDescription('canal para avisar a los mods')
+                    .addChannelTypes(...TEXT_CHANNELS)
+            )
+            .addChannelOption(option =>
+                option.setName('log_channel')
+                    .setDescription('canal para los reportes de menciones')
+                    .addChannelTypes(...TEXT_CHANNELS)
+            )
+            .addChannelOption(option =>
+                option.setName('error_channel')
+                    .setDescription('canal para los errores del bot')
+                    .addChannelTypes(...TEXT_CHANNELS)
+            )
+            .addStringOption(option =>
+                option.setName('vanity_code')
+                    .setDescription('el link personalizado que debe tener el servidor, sin discord.gg/')
+                    .setMaxLength(32)
+            )
+            .addUserOption(option =>
+                option.setName('owner')
+                    .setDescription('a quién mencionar cuando falla una revisión del servidor')
+            )
+            .addChannelOption(option =>
+                option.setName('audit_channel')
+                    .setDescription('canal para copiar el registro de acciones de los mods')
+                    .addChannelTypes(...TEXT_CHANNELS)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('announcements')
+            .setDescription('Configurar los anuncios de stream en directo, solo cambia lo que indiques')
+            .addChannelOption(option =>
+                option.setName('channel')
+                    .setDescription('canal donde anunciar')
+                    .addChannelTypes(...TEXT_CHANNELS)
+            )
+            .addRoleOption(option =>
+                option.setName('role')
+                    .setDescription('rol a mencionar en el anuncio')
+            )
+            .addStringOption(option =>
+                option.setName('message')
+                    .setDescription('texto del anuncio')
+                    .setMaxLength(1000)
+            )
+            .addIntegerOption(option =>
+                option.setName('cooldown')
+                    .setDescription('minutos antes de volver a mencionar al rol, por si el stream se corta')
+                    .setMinValue(0)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('clear')
+            .setDescription('Quitar una opción, la función que la usa se desactiva')
+            .addStringOption(option =>
+                option.setName('setting')
+                    .setDescription('la opción')
+                    .setRequired(true)
+                    .addChoices(
+                        ...Object.entries(SETTING_NAMES).map(([value, name]) => ({ name, value }))
+                    )
+            )
+    );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    if (!interaction.inGuild()) {
+        return interaction.reply({ content: "Este comando solo funciona en un servidor.", ephemeral: true });
+    }
+
+    const settings = await guildSettingsRepository.getSettings(interaction.guildId)
+    const subcommand = interaction.options.getSubcommand()
+
+    if (subcommand === 'show') {
+        return interaction.reply({ embeds: [describeSettings(settings)], ephemeral: true });
+    }
+
+    if (subcommand === 'set') {
+        const options = interaction.options
+        settings.modChannelId = options.getChannel('mod_channel')?.id ?? settings.modChannelId
+        settings.logChannelId = options.getChannel('log_channel')?.id ?? settings.logChannelId
+        settings.errorChannelId = options.getChannel('error_channel')?.id ?? settings.errorChannelId
+        settings.vanityCode = options.getString('vanity_code')?.replace(/^(https?:\/\/)?discord\.gg\//, '') ?? settings.vanityCode
+        settings.ownerId = options.getUser('owner')?.id ?? settings.ownerId
+        settings.auditChannelId = options.getChannel('audit_channel')?.id ?? settings.auditChannelId
+    }
+
+    if (subcommand === 'announcements') {
+        const options = interaction.options
+        settings.announcementChannelId = options.getChannel('channel')?.id ?? settings.announcementChannelId
+        settings.announcementRoleId = options.getRole('role')?.id ?? settings.announcementRoleId
+        settings.announcementMessage = options.getString('message') ?? settings.announcementMessage
+        settings.announcementCooldownMinutes = options.getInteger('cooldown') ?? settings.announcementCooldownMinutes
+    }
+
+    if (subcommand === 'clear') {
+        const key = interaction.options.getString('setting', true) as SettingKey
+        if (!(key in SETTING_NAMES)) {
+            return interaction.reply({ content: "Esa opción no existe.", ephemeral: true });
+        }
+        settings[key] = null
+    }
+
+    await guildSettingsRepository.saveSettings(settings)
+    return interaction.reply({ content: "Se actualizó la configuración.", embeds: [describeSettings(settings)], ephemeral: true });
+}
+
+function describeSettings(settings: GuildSettings): EmbedBuilder {
+    const channel = (id: string | null) => id ? `<#${id}>` : 'sin configurar'
+    const text = (value: string | null) => value ?? 'sin configurar'
+
+    return new EmbedBuilder()
+        .setColor(Colors.Blurple)
+        .setTitle('Configuración del servidor')
+        .addFields(
+            { name: SETTING_NAMES.modChannelId, value: channel(settings.modChannelId) },
+            { name: SETTING_NAMES.logChannelId, value: channel(settings.logChannelId) },
+            { name: SETTING_NAMES.errorChannelId, value: channel(settings.errorChannelId) },
+            { name: SETTING_NAMES.vanityCode, value: text(settings.vanityCode) },
+            { name: SETTING_NAMES.ownerId, value: settings.ownerId ? `<@${settings.ownerId}>` : 'sin configurar' },
+            { name: SETTING_NAMES.auditChannelId, value: channel(settings.auditChannelId) },
+            { name: SETTING_NAMES.announcementChannelId, value: channel(settings.announcementChannelId) },
+            { name: SETTING_NAMES.announcementRoleId, value: settings.announcementRoleId ? `<@&${settings.announcementRoleId}>` : 'sin configurar' },
+            { name: SETTING_NAMES.announcementMessage, value: text(settings.announcementMessage) },
+            { name: 'Espera entre menciones', value: `${settings.announcementCooldownMinutes} minutos` }
+        )
+}
@@ -0,0 +1,48 @@
+import { ChatInputCommandInteraction, Colors, EmbedBuilder, PermissionFlagsBits, SlashCommandBuilder } from "discord.js";
+import { healthMonitor } from "..";
+import { HEALTH_CHECK_NAMES } from "../health-checks";
+
+export const data = new SlashCommandBuilder()
+    .setName("status")
+    .setDescription("Ver el estado del bot")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .setDMPermission(false)
+    .addBooleanOption(option =>
+        option.setName('refresh')
+            .setDescription('revisar todo de nuevo antes de responder')
+    );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    if (!interaction.inGuild()) {
+        return interaction.reply({ content: "Este comando solo funciona en un servidor.", ephemeral: true });
+    }
+
+    if (interaction.options.getBoolean('refresh')) {
+        // Some checks call Discord and Twitch, it may take longer than Discord waits for a reply
+        await interaction.deferReply({ ephemeral: true });
+        await healthMonitor.runChecks();
+    }
+
+    const statuses = healthMonitor.getStatuses(interaction.guildId)
+    const failing = statuses.filter(status => !status.ok)
+
+    const embed = new EmbedBuilder()
+        .setColor(statuses.length === 0 ? Colors.Grey : failing.length > 0 ? Colors.Red : Colors.Green)
+        .setTitle(failing.length > 0 ? `${failing.length} revisiones fallando` : 'Todo funciona')
+        .setFooter({ text: healthMonitor.lastRun ? 'Última revisión' : 'Todavía no se ha revisado nada' })
+
+    if (healthMonitor.lastRun) embed.setTimestamp(healthMonitor.lastRun);
+
+    for (const status of statuses) {
+        const since = Math.floor(status.since.getTime() / 1000)
+        embed.addFields({
+            name: `${status.ok ? '✅' : '❌'} ${HEALTH_CHECK_NAMES[status.name] ?? status.name}`,
+            value: `${status.detail}\nDesde <t:${since}:R>`.slice(0, 1024)
+        })
+    }
+
+    if (interaction.deferred) {
+        return interaction.editReply({ embeds: [embed] });
+    }
+    return interaction.reply({ embeds: [embed], ephemeral: true });
+}
@@ -0,0 +1,35 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits, SlashCommandBuilder } from "discord.js";
+import { streamRepository } from "..";
+import { formatTagMessage } from "../stream";
+import { findVodStream } from "../vod-stream";
+
+export const data = new SlashCommandBuilder()
+    .setName("tagdelete")
+    .setDescription("Borrar un tag")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .addStringOption(option =>
+        option.setName('vodid')
+            .setDescription('el id del vod del tag')
+            .setRequired(true)
+    )
+    .addIntegerOption(option =>
+        option.setName('numero')
+            .setDescription('el número del tag')
+            .setMinValue(1)
+            .setRequired(true)
+    );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    const position = interaction.options.getInteger('numero', true)
+
+    const found = await findVodStream(interaction)
+    if (!found) return;
+
+    const tag = found.tags[position - 1]
+
+    if (!tag?.id || !await streamRepository.deleteTag(tag.id, interaction.user.username)) {
+        return interaction.reply(`No existe el tag ${position}. El vod tiene ${found.tags.length} tags.`);
+    }
+
+    return interaction.reply(`Se borró el tag ${position}: \`${tag.relativeTime}\` ${formatTagMessage(tag)}\nUsa /tagrevert para recuperarlo.`);
+}
@@ -0,0 +1,75 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits, SlashCommandBuilder } from "discord.js";
+import { streamRepository } from "..";
+import { formatRelativeTime, formatTagMessage, parseTagMessage, shiftTag } from "../stream";
+import { findSegmentTag, findVodStream } from "../vod-stream";
+
+export const data = new SlashCommandBuilder()
+    .setName("tagedit")
+    .setDescription("Editar el texto o el tiempo de un tag")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .addStringOption(option =>
+        option.setName('vodid')
+            .setDescription('el id del vod del tag')
+            .setRequired(true)
+    )
+    .addIntegerOption(option =>
+        option.setName('numero')
+            .setDescription('el número del tag')
+            .setMinValue(1)
+            .setRequired(true)
+    )
+    .addStringOption(option =>
+        option.setName('mensaje')
+            .setDescription('el nuevo texto del tag')
+    )
+    .addIntegerOption(option =>
+        option.setName('segundos')
+            .setDescription('segundos para mover el tag, negativo para moverlo hacia atrás')
+    );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    const position = interaction.options.getInteger('numero', true)
+    const message = interaction.options.getString('mensaje')
+    const seconds = interaction.options.getInteger('segundos')
+
+    const found = await findVodStream(interaction)
+    if (!found) return;
+
+    const tag = found.tags[position - 1]
+    // The listed tag is timed from the start of the vod, the stored one from the start of its segment
+    const stored = tag?.id ? findSegmentTag(found, tag.id) : null
+
+    if (!tag?.id || !stored) {
+        return interaction.reply(`No existe el tag ${position}. El vod tiene ${found.tags.length} tags.`);
+    }
+
+    // Without changes show what has been done to the tag so far
+    if (message === null && seconds === null) {
+        const history = await streamRepository.getTagHistory(tag.id)
+        if (history.length === 0) {
+            return interaction.reply(`El tag ${position} no ha sido editado.`);
+        }
+        const lines = history.map(edit =>
+            `${edit.editedAt.toISOString()} ${edit.editor} (${edit.action}): \`${edit.previous.relativeTime}\` ${formatTagMessage(edit.previous)}`
+        )
+        return interaction.reply(`Historial del tag ${position}:\n${lines.join('\n')}`);
+    }
+
+    const changes = {
+        ...(message !== null ? parseTagMessage(message, tag.category) : {}),
+        ...(seconds !== null ? shiftTag(stored, seconds) : {})
+    }
+
+    if (changes.relativeTimestamp !== undefined && changes.relativeTimestamp < 0) {
+        return interaction.reply("El tag quedaría antes del inicio del stream.");
+    }
+
+    const updated = await streamRepository.updateTag(tag.id, changes, interaction.user.username)
+
+    if (!updated) {
+        return interaction.reply(`No se pudo editar el tag ${position}.`);
+    }
+
+    const vodTime = formatRelativeTime(tag.relativeTimestamp + (seconds ?? 0) * 1000)
+    return interaction.reply(`Tag ${position} editado: \`${vodTime}\` ${formatTagMessage(updated)}`);
+}
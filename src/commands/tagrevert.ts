@@ -0,0 +1,43 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits, SlashCommandBuilder } from "discord.js";
+import { streamRepository } from "..";
+import { formatTagMessage } from "../stream";
+import { findVodStream } from "../vod-stream";
+
+export const data = new SlashCommandBuilder()
+    .setName("tagrevert")
+    .setDescription("Deshacer el último cambio de un tag o del stream")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .addStringOption(option =>
+        option.setName('vodid')
+            .setDescription('el id del vod del tag')
+            .setRequired(true)
+    )
+    .addIntegerOption(option =>
+        option.setName('numero')
+            .setDescription('el número del tag, si no se incluye se deshace el último cambio del stream')
+            .setMinValue(1)
+    );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    const position = interaction.options.getInteger('numero')
+
+    const found = await findVodStream(interaction)
+    if (!found) return;
+
+    let tagId: number | undefined
+    if (position !== null) {
+        tagId = found.tags[position - 1]?.id
+        if (!tagId) {
+            return interaction.reply(`No existe el tag ${position}. El vod tiene ${found.tags.length} tags.`);
+        }
+    }
+
+    // The vod may span several streams, the latest change of any of them is undone
+    const restored = await streamRepository.revertTag(found.segments.map(segment => segment.id), tagId)
+
+    if (!restored) {
+        return interaction.reply("No hay cambios que deshacer.");
+    }
+
+    return interaction.reply(`Se restauró el tag: \`${restored.relativeTime}\` ${formatTagMessage(restored)}`);
+}
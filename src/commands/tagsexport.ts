@@ -0,0 +1,61 @@
+import { AttachmentBuilder, ChatInputCommandInteraction, SlashCommandBuilder } from "discord.js";
+import { ExportFormat, exporters, exportTags } from "../exporters";
+import { exportContextForVod, findVodStream } from "../vod-stream";
+import { filterTags } from "../stream";
+import { categoryOption, describeTagFilter, getTagFilter, moderatorOption } from "../tag-filter-options";
+import { logger } from "../logger";
+
+export const data = new SlashCommandBuilder()
+    .setName("tagsexport")
+    .setDescription("Exportar tags para editores de video")
+    .addStringOption(option =>
+        option.setName('vodid')
+            .setDescription('el id del vod del que quieres tags')
+            .setRequired(true)
+    )
+    .addStringOption(option =>
+        option.setName('format')
+            .setDescription('el formato del archivo')
+            .setRequired(true)
+            .addChoices(Object.entries(exporters).map(([value, exporter]) => ({ name: exporter.name, value })))
+    )
+    .addIntegerOption(option =>
+        option.setName('fps')
+            .setDescription('cuadros por segundo del timeline, 30 si no se incluye')
+            .setMinValue(1)
+            .setMaxValue(240)
+    )
+    .addStringOption(categoryOption)
+    .addStringOption(moderatorOption);
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    const format = interaction.options.getString('format', true) as ExportFormat
+    const fps = interaction.options.getInteger('fps') ?? undefined
+
+    const exporter = exporters[format]
+
+    if (!exporter) {
+        return interaction.reply("Ese formato no existe.");
+    }
+
+    const found = await findVodStream(interaction)
+    if (!found) return;
+
+    const { vod } = found
+    const filter = getTagFilter(interaction)
+    const tags = filterTags(found.tags, filter)
+
+    if (tags.length === 0) {
+        return interaction.reply(`El stream no tiene tags${describeTagFilter(filter)}.`)
+    }
+
+    logger.debug('Exporting tags', { vodId: vod.id, tags: tags.length, format })
+
+    const content = exportTags(format, tags, exportContextForVod(vod, fps))
+    const file = new AttachmentBuilder(Buffer.from(content, 'utf-8'), { name: `tags.${vod.id}.${exporter.extension}` })
+
+    return interaction.reply({
+        content: `${exporter.name}: ${tags.length} tags${describeTagFilter(filter)}`,
+        files: [file]
+    });
+}
@@ -0,0 +1,41 @@
+import { ChatInputCommandInteraction, PermissionFlagsBits, SlashCommandBuilder } from "discord.js";
+import { streamRepository } from "..";
+import { getStreamOffset } from "../stream";
+import { findVodStream } from "../vod-stream";
+import { logger } from "../logger";
+
+export const data = new SlashCommandBuilder()
+    .setName("tagsshift")
+    .setDescription("Mover todos los tags de un vod")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .addStringOption(option =>
+        option.setName('vodid')
+            .setDescription('el id del vod')
+            .setRequired(true)
+    )
+    .addIntegerOption(option =>
+        option.setName('seconds')
+            .setDescription('segundos para mover los tags, negativo para moverlos hacia atrás')
+            .setRequired(true)
+    );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    const seconds = interaction.options.getInteger('seconds', true)
+
+    const found = await findVodStream(interaction)
+    if (!found) return;
+
+    // Tags are placed at timestamp - start - offset, so moving them later means less offset
+    for (const segment of found.segments) {
+        segment.vodDelay -= seconds
+        await streamRepository.saveStream(segment)
+        logger.info('Shifted the tags of a stream', { guildId: interaction.guildId, streamId: segment.id, seconds, vodDelay: segment.vodDelay })
+    }
+
+    const { stream } = found
+
+    return interaction.reply(
+        `Se movieron ${found.tags.length} tags ${seconds} segundos. ` +
+        `Desfase total del vod: ${getStreamOffset(stream)} segundos (delay ${stream.delay}, ajuste ${stream.vodDelay}).`
+    );
+}
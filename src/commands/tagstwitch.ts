@@ -1,5 +1,25 @@
-import { ChatInputCommandInteraction, SlashCommandBuilder } from "discord.js";
-import { getTwitchVodFromId, loadStream } from "..";
+import {
+    ActionRowBuilder,
+    AttachmentBuilder,
+    ButtonBuilder,
+    ButtonInteraction,
+    ButtonStyle,
+    ChatInputCommandInteraction,
+    Colors,
+    EmbedBuilder,
+    InteractionReplyOptions,
+    ModalBuilder,
+    ModalSubmitInteraction,
+    SlashCommandBuilder,
+    TextInputBuilder,
+    TextInputStyle
+} from "discord.js";
+import { exportTags } from "../exporters";
+import { exportContextForVod, findVodStream, loadVodStream, VodStream } from "../vod-stream";
+import { filterTags, TagFilter } from "../stream";
+import { categoryOption, describeTagFilter, getTagFilter, moderatorOption } from "../tag-filter-options";
+import { logger } from "../logger";
+import crypto from "crypto";
 
 export const data = new SlashCommandBuilder()
     .setName("tagstwitch")
@@ -8,44 +28,206 @@ export const data = new SlashCommandBuilder()
         option.setName('vodid')
             .setDescription('el id del vod del que quieres tags')
             .setRequired(true)
-    );
+    )
+    .addStringOption(categoryOption)
+    .addStringOption(moderatorOption);
+
+// Embed descriptions allow 4096 characters, leave some room
+const PAGE_LENGTH = 3500;
+const PAGE_SIZE = 15;
+const MESSAGE_LENGTH = 2000;
+
+// Discord refuses longer custom ids
+const CUSTOM_ID_LENGTH = 100;
+// Filters kept in memory, the oldest one is dropped past this
+const MAX_STORED_FILTERS = 500;
+
+// Buttons carry the whole state in their custom id: tagstwitch:<action>:<vodid>:<page>:<category>:<moderator>.
+// A filter too long for the id is kept in memory instead and the id carries ~<key> as its category.
+interface PageState {
+    vodid: string;
+    page: number;
+    filter: TagFilter;
+}
 
 export async function execute(interaction: ChatInputCommandInteraction) {
-    
-    const vodid = interaction.options.getString('vodid', true) 
 
-    if (!vodid){
-        return interaction.reply("Tienes que incluir el id del vod!");
+    const found = await findVodStream(interaction)
+    if (!found) return;
+
+    const state = { vodid: found.vod.id, page: 0, filter: getTagFilter(interaction) }
+
+    logger.debug('Listing tags', { vodId: found.vod.id, tags: found.tags.length })
+
+    return interaction.reply(buildPage(found, state));
+}
+
+const storedFilters = new Map<string, TagFilter>();
+
+export async function handleComponent(interaction: ButtonInteraction | ModalSubmitInteraction) {
+    const [, action, ...rest] = interaction.customId.split(':')
+    const state = parseState(rest)
+
+    if (!state) {
+        return interaction.reply({ content: 'Esta lista ya no está disponible, vuelve a usar /tagstwitch.', ephemeral: true });
+    }
+
+    if (action === 'jump' && interaction.isButton()) {
+        const input = new TextInputBuilder()
+            .setCustomId('page')
+            .setLabel('Página')
+            .setStyle(TextInputStyle.Short)
+            .setRequired(true)
+        const modal = new ModalBuilder()
+            .setCustomId(customId('goto', state))
+            .setTitle('Ir a la página')
+            .addComponents(new ActionRowBuilder<TextInputBuilder>().addComponents(input))
+        return interaction.showModal(modal);
+    }
+
+    const found = await loadVodStream(state.vodid)
+
+    if (typeof found === 'string') {
+        return interaction.reply({ content: found, ephemeral: true });
+    }
+
+    if (action === 'download') {
+        return interaction.reply({ ...buildDownload(found, state.filter), ephemeral: true });
+    }
+
+    if (action === 'goto' && interaction.isModalSubmit()) {
+        const page = Number.parseInt(interaction.fields.getTextInputValue('page'))
+        if (Number.isNaN(page)) {
+            return interaction.reply({ content: 'Esa página no existe.', ephemeral: true });
+        }
+        state.page = page - 1
     }
 
-    const vod = await getTwitchVodFromId(vodid)
+    const view = buildPage(found, state)
 
-    if (!vod) {
-        return interaction.reply("Ese vod no existe");
+    if (interaction.isButton() || interaction.isFromMessage()) {
+        return interaction.update(view);
     }
+    return interaction.reply(view);
+}
 
-    console.log(`Se encontró el vod ${vodid} buscando tags...`)
+function getLines({ vod, tags: vodTags }: VodStream, filter: TagFilter): string[] {
+    const tags = filterTags(vodTags, filter)
+    if (tags.length === 0) return [];
+    return exportTags('twitch', tags, exportContextForVod(vod)).split('\n')
+}
 
-    if (!vod.streamId) {
-        console.error(`El vod no tiene un stream ${vod.id} ${vod.streamId}`)
-        return interaction.reply("Ese vod no pertenece a un stream.");
+function paginate(lines: string[]): string[][] {
+    const pages: string[][] = []
+    let current: string[] = []
+    let length = 0
+
+    for (const line of lines) {
+        if (current.length > 0 && (current.length >= PAGE_SIZE || length + line.length + 1 > PAGE_LENGTH)) {
+            pages.push(current)
+            current = []
+            length = 0
+        }
+        current.push(line.slice(0, PAGE_LENGTH))
+        length += line.length + 1
     }
 
-    console.log(`buscando tags del stream ${vod.streamId}`)
+    if (current.length > 0) pages.push(current);
+    return pages;
+}
 
-    const stream = await loadStream(vod.streamId);
+function buildPage(found: VodStream, state: PageState) {
+    const lines = getLines(found, state.filter)
+    const title = `Tags del stream${describeTagFilter(state.filter)} (${lines.length})`
 
-    if (!stream) {
-        console.log(`${vod}`)
-        return interaction.reply("No se encontraron tags para ese vod.");
+    if (lines.length === 0) {
+        return { content: `${title}: el stream no tiene tags.`, embeds: [], components: [] };
     }
 
-    console.log(`transformando ${stream.tags.length} tags`)
+    const pages = paginate(lines)
+    const page = Math.min(Math.max(state.page, 0), pages.length - 1)
+    const current = { ...state, page }
+
+    const embed = new EmbedBuilder()
+        .setColor(Colors.Purple)
+        .setTitle(title)
+        .setURL(found.vod.url)
+        .setDescription(pages[page].join('\n'))
+        .setFooter({ text: `Página ${page + 1} de ${pages.length}` })
 
-    const mappedTags = stream.tags.map((tag, index) =>
-        `${index + 1} - [\`${tag.relativeTime}\`](<${vod.url}?t=${tag.relativeTime}>) : ${tag.message}\n`
+    const buttons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+            .setCustomId(customId('page', { ...current, page: page - 1 }))
+            .setLabel('Anterior')
+            .setStyle(ButtonStyle.Secondary)
+            .setDisabled(page === 0),
+        new ButtonBuilder()
+            .setCustomId(customId('page', { ...current, page: page + 1 }))
+            .setLabel('Siguiente')
+            .setStyle(ButtonStyle.Secondary)
+            .setDisabled(page === pages.length - 1),
+        new ButtonBuilder()
+            .setCustomId(customId('jump', current))
+            .setLabel('Ir a página')
+            .setStyle(ButtonStyle.Secondary)
+            .setDisabled(pages.length === 1),
+        new ButtonBuilder()
+            .setCustomId(customId('download', current))
+            .setLabel('Descargar todo')
+            .setStyle(ButtonStyle.Primary)
     )
 
+    return { content: '', embeds: [embed], components: [buttons] };
+}
+
+// Everything in one message when it fits, as a file otherwise
+function buildDownload(found: VodStream, filter: TagFilter): InteractionReplyOptions {
+    const text = getLines(found, filter).join('\n')
+    const content = `Tags del stream${describeTagFilter(filter)}:\n${text}`
+
+    if (content.length <= MESSAGE_LENGTH) {
+        return { content };
+    }
+
+    const file = new AttachmentBuilder(Buffer.from(text, 'utf-8'), { name: `tags.${found.vod.id}.md` })
+    return { content: `Tags del stream${describeTagFilter(filter)}`, files: [file] };
+}
+
+function customId(action: string, { vodid, page, filter }: PageState): string {
+    const prefix = [data.name, action, vodid, page].join(':')
+    const inline = [prefix, escapeIdPart(filter.category ?? ''), escapeIdPart(filter.moderator ?? '')].join(':')
+    if (inline.length <= CUSTOM_ID_LENGTH) return inline;
+
+    return [prefix, `~${storeFilter(filter)}`, ''].join(':')
+}
+
+// Same filter, same key, so the buttons of one list share it
+function storeFilter(filter: TagFilter): string {
+    const key = crypto.createHash('sha256').update(JSON.stringify([filter.category, filter.moderator])).digest('base64url').slice(0, 12)
+
+    storedFilters.delete(key)
+    storedFilters.set(key, filter)
+    if (storedFilters.size > MAX_STORED_FILTERS) {
+        storedFilters.delete(storedFilters.keys().next().value!)
+    }
+    return key
+}
+
+// Returns null when the filter was kept in memory and is gone, ie. after a restart
+function parseState([vodid, page, category, moderator]: string[]): PageState | null {
+    const filter = category?.startsWith('~')
+        ? storedFilters.get(category.slice(1))
+        : { category: unescapeIdPart(category ?? '') || null, moderator: unescapeIdPart(moderator ?? '') || null }
+    if (!filter) return null;
+
+    return { vodid, page: Number.parseInt(page) || 0, filter };
+}
+
+// Only what would break the id is escaped, percent-encoding every other character could make it 9 times longer
+function escapeIdPart(text: string): string {
+    return text.replace(/[%:~]/g, character => `%${character.charCodeAt(0).toString(16).toUpperCase()}`)
+}
 
-    return interaction.reply(`Tags del stream (${stream.tags.length}):\n > ${mappedTags}`);
-}
\ No newline at end of file
+function unescapeIdPart(text: string): string {
+    return text.replace(/%(25|3A|7E)/gi, match => decodeURIComponent(match))
+}
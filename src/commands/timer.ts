@@ -0,0 +1,149 @@
+import { ChatInputCommandInteraction, Colors, EmbedBuilder, PermissionFlagsBits, SlashCommandBuilder } from "discord.js";
+import { timedMessageRepository } from "..";
+import {
+    DEFAULT_TIMER_INTERVAL_MINUTES,
+    DEFAULT_TIMER_MIN_CHAT_LINES,
+    TimedMessage
+} from "../storage/timed-message-repository";
+
+export const data = new SlashCommandBuilder()
+    .setName("timer")
+    .setDescription("Administrar los mensajes que el bot publica en el chat de Twitch durante el stream")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .setDMPermission(false)
+    .addSubcommand(subcommand =>
+        subcommand.setName('add')
+            .setDescription('Crear un mensaje periódico')
+            .addStringOption(option =>
+                option.setName('name')
+                    .setDescription('un nombre para identificarlo')
+                    .setRequired(true)
+                    .setMaxLength(25)
+            )
+            .addStringOption(option =>
+                option.setName('message')
+                    .setDescription('el mensaje')
+                    .setRequired(true)
+                    .setMaxLength(500)
+            )
+            .addIntegerOption(option =>
+                option.setName('interval')
+                    .setDescription(`minutos entre mensajes, por defecto ${DEFAULT_TIMER_INTERVAL_MINUTES}`)
+                    .setMinValue(1)
+            )
+            .addIntegerOption(option =>
+                option.setName('min_lines')
+                    .setDescription(`mensajes del chat necesarios desde el último, por defecto ${DEFAULT_TIMER_MIN_CHAT_LINES}`)
+                    .setMinValue(0)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('edit')
+            .setDescription('Editar un mensaje periódico, solo cambia lo que indiques')
+            .addStringOption(option =>
+                option.setName('name')
+                    .setDescription('el nombre')
+                    .setRequired(true)
+                    .setMaxLength(25)
+            )
+            .addStringOption(option =>
+                option.setName('message')
+                    .setDescription('el mensaje nuevo')
+                    .setMaxLength(500)
+            )
+            .addIntegerOption(option =>
+                option.setName('interval')
+                    .setDescription('minutos entre mensajes')
+                    .setMinValue(1)
+            )
+            .addIntegerOption(option =>
+                option.setName('min_lines')
+                    .setDescription('mensajes del chat necesarios desde el último')
+                    .setMinValue(0)
+            )
+            .addBooleanOption(option =>
+                option.setName('enabled')
+                    .setDescription('si se publica o está en pausa')
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('delete')
+            .setDescription('Borrar un mensaje periódico')
+            .addStringOption(option =>
+                option.setName('name')
+                    .setDescription('el nombre')
+                    .setRequired(true)
+                    .setMaxLength(25)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('list')
+            .setDescription('Ver los mensajes periódicos')
+    );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    if (!interaction.inGuild()) {
+        return interaction.reply({ content: "Este comando solo funciona en un servidor.", ephemeral: true });
+    }
+
+    const subcommand = interaction.options.getSubcommand()
+
+    if (subcommand === 'list') {
+        return interaction.reply({ embeds: [await describeTimers()], ephemeral: true });
+    }
+
+    const name = interaction.options.getString('name', true).trim().toLowerCase()
+    const existing = await timedMessageRepository.getTimer(name)
+
+    if (subcommand === 'delete') {
+        const deleted = await timedMessageRepository.deleteTimer(name)
+        return interaction.reply({ content: deleted ? `Se borró el timer ${name}.` : `El timer ${name} no existe.`, ephemeral: true });
+    }
+
+    if (subcommand === 'add' && existing) {
+        return interaction.reply({ content: `El timer ${name} ya existe.`, ephemeral: true });
+    }
+    if (subcommand === 'edit' && !existing) {
+        return interaction.reply({ content: `El timer ${name} no existe, créalo con /timer add.`, ephemeral: true });
+    }
+
+    const options = interaction.options
+    const timer = await timedMessageRepository.saveTimer({
+        name,
+        message: options.getString('message') ?? existing!.message,
+        intervalMinutes: options.getInteger('interval') ?? existing?.intervalMinutes ?? DEFAULT_TIMER_INTERVAL_MINUTES,
+        minChatLines: options.getInteger('min_lines') ?? existing?.minChatLines ?? DEFAULT_TIMER_MIN_CHAT_LINES,
+        enabled: options.getBoolean('enabled') ?? existing?.enabled ?? true,
+        updatedBy: interaction.user.username,
+        updatedAt: new Date()
+    })
+
+    return interaction.reply({
+        content: `Se ${subcommand === 'add' ? 'creó' : 'editó'} el timer ${timer.name}.`,
+        embeds: [new EmbedBuilder().setColor(Colors.Blurple).addFields(describeTimer(timer))],
+        ephemeral: true
+    });
+}
+
+function describeTimer(timer: TimedMessage) {
+    const state = timer.enabled ? '' : ' (en pausa)'
+    return {
+        name: `${timer.name}${state}`,
+        value: `Cada ${timer.intervalMinutes} minutos y ${timer.minChatLines} mensajes del chat\n${timer.message}`.slice(0, 1024)
+    };
+}
+
+async function describeTimers(): Promise<EmbedBuilder> {
+    const timers = await timedMessageRepository.getTimers()
+
+    const embed = new EmbedBuilder()
+        .setColor(Colors.Blurple)
+        .setTitle('Mensajes periódicos')
+        .setFooter({ text: 'Solo se publican mientras el stream está en directo' })
+
+    if (timers.length === 0) {
+        return embed.setDescription('No hay mensajes periódicos');
+    }
+    // Embeds allow 25 fields
+    return embed.addFields(timers.slice(0, 25).map(describeTimer));
+}
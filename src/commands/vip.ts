@@ -0,0 +1,97 @@
+import { ChatInputCommandInteraction, Colors, EmbedBuilder, PermissionFlagsBits, SlashCommandBuilder } from "discord.js";
+import { vipManager } from "..";
+import { parseDuration } from "../duration";
+import { VipGrant } from "../storage/vip-repository";
+import { logger } from "../logger";
+
+export const data = new SlashCommandBuilder()
+    .setName("vip")
+    .setDescription("Administrar los VIPs del canal de Twitch")
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .setDMPermission(false)
+    .addSubcommand(subcommand =>
+        subcommand.setName('add')
+            .setDescription('Dar VIP, o cambiar cuándo vence')
+            .addStringOption(option =>
+                option.setName('user')
+                    .setDescription('el usuario de Twitch')
+                    .setRequired(true)
+                    .setMaxLength(25)
+            )
+            .addStringOption(option =>
+                option.setName('duration')
+                    .setDescription('cuánto dura, ie. 30m, 12h, 7d o 2w. Sin duración no vence')
+                    .setMaxLength(10)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('remove')
+            .setDescription('Quitar VIP')
+            .addStringOption(option =>
+                option.setName('user')
+                    .setDescription('el usuario de Twitch')
+                    .setRequired(true)
+                    .setMaxLength(25)
+            )
+    )
+    .addSubcommand(subcommand =>
+        subcommand.setName('list')
+            .setDescription('Ver los VIPs dados por el bot')
+    );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    if (!interaction.inGuild()) {
+        return interaction.reply({ content: "Este comando solo funciona en un servidor.", ephemeral: true });
+    }
+
+    const subcommand = interaction.options.getSubcommand()
+
+    if (subcommand === 'list') {
+        return interaction.reply({ embeds: [describeVips(await vipManager.getVips())], ephemeral: true });
+    }
+
+    const user = interaction.options.getString('user', true).trim()
+    const durationText = interaction.options.getString('duration')
+    const duration = parseDuration(durationText ?? undefined)
+
+    if (durationText && !duration) {
+        return interaction.reply({ content: "La duración se escribe así: 30m, 12h, 7d o 2w.", ephemeral: true });
+    }
+
+    // The Twitch API may take longer than Discord waits for a reply
+    await interaction.deferReply({ ephemeral: true });
+
+    try {
+        if (subcommand === 'remove') {
+            const result = await vipManager.remove(user, interaction.user.username, 'discord')
+            const content = result === 'not-found' ? `El usuario ${user} no existe en Twitch.`
+                : result === 'not-vip' ? `${user} no es VIP.`
+                : `Se le quitó VIP a ${user}.`
+            return interaction.editReply({ content });
+        }
+
+        const result = await vipManager.grant(user, duration, interaction.user.username, 'discord')
+        if (result.status === 'not-found') {
+            return interaction.editReply({ content: `El usuario ${user} no existe en Twitch.` });
+        }
+
+        const action = result.status === 'granted' ? `Se le agregó VIP a ${result.grant.userName}` : `${result.grant.userName} ya era VIP`
+        return interaction.editReply({ content: `${action}, ${describeExpiry(result.grant)}.` });
+    } catch (error) {
+        logger.error('Could not change the VIP', { guildId: interaction.guildId, command: 'vip', user, error });
+        return interaction.editReply({ content: "No se pudo cambiar el VIP, revisa que el bot esté conectado a Twitch." });
+    }
+}
+
+function describeExpiry(grant: VipGrant): string {
+    return grant.expiresAt ? `vence <t:${Math.floor(grant.expiresAt.getTime() / 1000)}:R>` : 'no vence'
+}
+
+function describeVips(vips: VipGrant[]): EmbedBuilder {
+    const lines = vips.map(grant => `**${grant.userName}** ${describeExpiry(grant)}, dado por ${grant.grantedBy}`)
+
+    return new EmbedBuilder()
+        .setColor(Colors.Purple)
+        .setTitle('VIPs')
+        .setDescription((lines.join('\n') || 'El bot no ha dado ningún VIP').slice(0, 4096))
+}
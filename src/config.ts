@@ -12,14 +12,19 @@ const { DISCORD_TOKEN,
   TWITCH_CLIENT_SECRET,
   TWITCH_BROADCASTER,
   TWITCH_GLOBAL_DELAY,
-  DOMAIN
+  DOMAIN,
+  DATABASE_PATH,
+  LOG_LEVEL,
+  LOG_PATH,
+  SIMULATION,
+  TWITCH_BOT_USERNAME,
+  AUTH_SECRET,
+  TOKEN_PATH,
+  TOKEN_ENCRYPTION_KEY
 } = process.env;
 
 if (!DISCORD_TOKEN || 
   !DISCORD_CLIENT_ID || 
-  !WHITELISTED_CHANNELS||
-  !ALLOWED_ROLE_IDS ||
-  !MOD_CHANNEL_ID ||
   !TWITCH_CLIENT_ID ||
   !TWITCH_CLIENT_SECRET ||
   !TWITCH_BROADCASTER
@@ -38,5 +43,13 @@ export const config = {
   TWITCH_CLIENT_SECRET,
   TWITCH_BROADCASTER,
   TWITCH_GLOBAL_DELAY,
-  DOMAIN
+  DOMAIN,
+  DATABASE_PATH,
+  LOG_LEVEL,
+  LOG_PATH,
+  SIMULATION: SIMULATION === 'true',
+  TWITCH_BOT_USERNAME,
+  AUTH_SECRET,
+  TOKEN_PATH,
+  TOKEN_ENCRYPTION_KEY
 };
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { CommandPlatform, CustomCommand } from "./storage/custom-command-repository";
+
+export const COMMAND_PLATFORMS: CommandPlatform[] = ['twitch', 'discord', 'both'];
+
+// Filled in when the command answers
+export interface CommandVariables {
+    // Who used the command
+    user: string;
+    // The first word after the command, or the user when there is none
+    touser: string;
+    // How long the stream has been live
+    uptime: string;
+    // Tags of the current stream
+    tagcount: string;
+    channel: string;
+}
+
+export const COMMAND_VARIABLE_NAMES: (keyof CommandVariables)[] = ['user', 'touser', 'uptime', 'tagcount', 'channel'];
+
+const MAX_NAME_LENGTH = 25;
+
+// The built-in Twitch commands, they answer before custom commands so their names can't be used
+export const BUILTIN_TWITCH_COMMANDS = [
+    'tag', 'tagalias', 'untag', 'edittag', 'retime', 'delay', 'vip', 'unvip', 'viplist',
+    'perm', 'cooldown', 'tagmerge', 'addcom', 'editcom', 'delcom', 'editor'
+];
+
+// "!Discord" becomes "discord". Returns null for names that can't be commands.
+export function parseCommandName(text: string | undefined): string | null {
+    const name = text?.trim().replace(/^!/, '').toLowerCase();
+    if (!name || name.length > MAX_NAME_LENGTH || !/^[\p{L}\p{N}_-]+$/u.test(name)) {
+        return null;
+    }
+    return name;
+}
+
+// Unknown variables are left as they are
+export function renderCommandResponse(template: string, variables: CommandVariables): string {
+    return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+        COMMAND_VARIABLE_NAMES.includes(name.toLowerCase() as keyof CommandVariables)
+            ? variables[name.toLowerCase() as keyof CommandVariables]
+            : match
+    );
+}
+
+export function answersOn(command: CustomCommand, platform: Exclude<CommandPlatform, 'both'>): boolean {
+    return command.platform === 'both' || command.platform === platform;
+}
+
+// "-twitch hola" targets Twitch with the response "hola". The platform is null when there is no flag.
+export function parsePlatformFlag(words: string[]): { platform: CommandPlatform | null, response: string } {
+    const flag = words[0]?.match(/^-(twitch|discord|both|ambos)$/i)?.[1].toLowerCase();
+    if (!flag) {
+        return { platform: null, response: words.join(' ').trim() };
+    }
+    return {
+        platform: flag === 'ambos' ? 'both' : flag as CommandPlatform,
+        response: words.slice(1).join(' ').trim()
+    };
+}
+
+export function describePlatform(platform: CommandPlatform): string {
+    return platform === 'both' ? 'Twitch y Discord' : platform === 'twitch' ? 'Twitch' : 'Discord';
+}
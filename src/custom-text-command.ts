@@ -0,0 +1,46 @@
+import { BotCommand, BotCommandContext } from '@twurple/easy-bot';
+import { answersOn } from './custom-commands';
+import { CustomCommand, CustomCommandRepository } from './storage/custom-command-repository';
+
+type CustomCommandHandler = (command: CustomCommand, params: string[], context: BotCommandContext) => void | Promise<void>;
+
+// Dispatches the custom text commands that answer on Twitch, which are only known at runtime.
+// Register it after the other commands so built-in commands always win over a custom one with the same name.
+export class CustomTextCommand extends BotCommand {
+    private commands: CustomCommand[] = [];
+
+    constructor(private repository: CustomCommandRepository, private handler: CustomCommandHandler) {
+        super();
+    }
+
+    get name(): string {
+        return 'custom-command';
+    }
+
+    get aliases(): string[] {
+        return this.commands.map(command => command.name);
+    }
+
+    async load(): Promise<CustomCommand[]> {
+        const commands = await this.repository.getCommands(null);
+        this.commands = commands.filter(command => answersOn(command, 'twitch'));
+        return commands;
+    }
+
+    match(line: string, prefix: string): string[] | null {
+        const [command] = line.split(' ');
+        if (!command.startsWith(prefix) || !this.aliases.includes(command.slice(prefix.length).toLowerCase())) {
+            return null;
+        }
+        // Keep the name so execute can tell which one was used
+        return line.slice(prefix.length).split(' ');
+    }
+
+    async execute([name, ...params]: string[], context: BotCommandContext): Promise<void> {
+        const command = this.commands.find(command => command.name === name.toLowerCase());
+
+        if (command) {
+            await this.handler(command, params, context);
+        }
+    }
+}
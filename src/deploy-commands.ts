@@ -1,28 +1,30 @@
 import { REST, Routes } from "discord.js";
 import { config } from "./config";
 import { commands } from "./commands";
+import { logger } from "./logger";
 
 const commandsData = Object.values(commands).map((command) => command.data);
 
 const rest = new REST({ version: "10" }).setToken(config.DISCORD_TOKEN);
 
 type DeployCommandsProps = {
-  guildId: string;
+  guildIds: string[];
 };
 
-export async function deployCommands({ guildId }: DeployCommandsProps) {
-  try {
-    console.log("Started refreshing application (/) commands.");
+export async function deployCommands({ guildIds }: DeployCommandsProps) {
+  for (const guildId of guildIds) {
+    try {
 
-    await rest.put(
-      Routes.applicationGuildCommands(config.DISCORD_CLIENT_ID, guildId),
-      {
-        body: commandsData,
-      }
-    );
+      await rest.put(
+        Routes.applicationGuildCommands(config.DISCORD_CLIENT_ID, guildId),
+        {
+          body: commandsData,
+        }
+      );
 
-    console.log("Successfully reloaded application (/) commands.");
-  } catch (error) {
-    console.error(error);
+      logger.info('Deployed the slash commands', { guildId });
+    } catch (error) {
+      logger.error('Could not deploy the slash commands', { guildId, error });
+    }
   }
-}
\ No newline at end of file
+}
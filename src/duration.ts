@@ -0,0 +1,15 @@
+export const DURATION_UNITS: Record<string, number> = {
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000
+};
+
+// "7d", "12h", "30m" or "2w". Returns milliseconds or null when the text is not a duration.
+export function parseDuration(text: string | undefined): number | null {
+    const match = text?.trim().toLowerCase().match(/^(\d+)\s*([mhdw])$/);
+    if (!match) return null;
+
+    const amount = Number.parseInt(match[1]);
+    return amount > 0 ? amount * DURATION_UNITS[match[2]] : null;
+}
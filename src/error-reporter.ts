@@ -0,0 +1,148 @@
+import { AttachmentBuilder, Client, Colors, DiscordAPIError, EmbedBuilder, TextChannel } from "discord.js";
+import { GuildSettingsRepository } from "./storage/guild-settings-repository";
+import { LogFields, Logger } from "./logger";
+import { metrics } from "./metrics";
+
+// The guild decides which error channel gets the report, without one every error channel does
+export interface ErrorContext extends LogFields {
+    guildId?: string;
+}
+
+export interface ErrorReporterOptions {
+    // The same error is posted once in this window, the repeats are counted
+    groupWindowMs: number;
+    // Posts allowed in postWindowMs across every error
+    maxPosts: number;
+    postWindowMs: number;
+    // How long to stop posting after Discord failed to take a report
+    pauseMs: number;
+}
+
+export const DEFAULT_ERROR_REPORTER_OPTIONS: ErrorReporterOptions = {
+    groupWindowMs: 10 * 60 * 1000,
+    maxPosts: 5,
+    postWindowMs: 60 * 1000,
+    pauseMs: 5 * 60 * 1000
+};
+
+// Forgets groups that were not seen in a while once there are this many
+const CLEANUP_SIZE = 500;
+
+interface ErrorGroup {
+    lastPostedAt: number;
+    lastSeenAt: number;
+    // Times it happened without being posted
+    repeats: number;
+}
+
+// Logs every error and posts them to the error channels of the guilds.
+// Repeated errors are grouped and posts are rate limited, so an error in a loop doesn't flood Discord.
+// Failing to post never reports another error. A channel that refuses the report is skipped,
+// posting only pauses for a while when Discord itself can't be reached.
+export class ErrorReporter {
+    private groups = new Map<string, ErrorGroup>();
+    private postedAt: number[] = [];
+    private pausedUntil = 0;
+    private options: ErrorReporterOptions;
+
+    constructor(
+        private client: Client,
+        private settingsRepository: GuildSettingsRepository,
+        private logger: Logger,
+        options: Partial<ErrorReporterOptions> = {}
+    ) {
+        this.options = { ...DEFAULT_ERROR_REPORTER_OPTIONS, ...options };
+    }
+
+    // Doesn't wait for Discord, callers go on right away
+    report(error: unknown, context: ErrorContext = {}) {
+        this.logger.error(describeError(error), { ...context, error });
+        metrics.errorsReported.inc();
+
+        const now = Date.now();
+        const key = fingerprint(error, context);
+        const group = this.groups.get(key) ?? { lastPostedAt: 0, lastSeenAt: now, repeats: 0 };
+        group.lastSeenAt = now;
+
+        if (this.groups.size >= CLEANUP_SIZE) this.cleanup(now);
+        this.groups.set(key, group);
+
+        if (now - group.lastPostedAt < this.options.groupWindowMs || now < this.pausedUntil || !this.tryAcquire(now)) {
+            group.repeats++;
+            return;
+        }
+
+        const repeats = group.repeats;
+        group.lastPostedAt = now;
+        group.repeats = 0;
+
+        this.post(error, context, repeats).catch(postError => {
+            this.pausedUntil = Date.now() + this.options.pauseMs;
+            this.logger.warn('Could not post an error report to Discord, pausing the reports', { error: postError });
+        });
+    }
+
+    private tryAcquire(now: number): boolean {
+        this.postedAt = this.postedAt.filter(time => now - time < this.options.postWindowMs);
+        if (this.postedAt.length >= this.options.maxPosts) return false;
+
+        this.postedAt.push(now);
+        return true;
+    }
+
+    private async post(error: unknown, context: ErrorContext, repeats: number) {
+        if (!this.client.isReady()) return;
+
+        const settings = context.guildId
+            ? [await this.settingsRepository.getSettings(context.guildId)]
+            : await this.settingsRepository.getAllSettings();
+
+        const embed = new EmbedBuilder()
+            .setTitle("An error has occurred")
+            .setDescription(describeError(error).slice(0, 4096))
+            .setColor(Colors.Red)
+            .setTimestamp()
+
+        const fields = Object.entries(context)
+            .filter(([, value]) => value !== undefined && value !== null)
+            .slice(0, 25)
+            .map(([name, value]) => ({ name, value: `${value}`.slice(0, 1024), inline: true }));
+        if (fields.length > 0) embed.addFields(fields);
+
+        if (repeats > 0) {
+            embed.setFooter({ text: `Happened ${repeats} more times since the last report` });
+        }
+
+        // Discord shows text files collapsed, the stack doesn't take over the channel
+        const stack = error instanceof Error ? error.stack : undefined;
+        const files = stack ? [new AttachmentBuilder(Buffer.from(stack), { name: 'stack.txt' })] : [];
+
+        for (const { guildId, errorChannelId } of settings) {
+            if (!errorChannelId) continue;
+            try {
+                const errorChannel = await this.client.channels.fetch(errorChannelId) as TextChannel;
+                await errorChannel.send({ embeds: [embed], files });
+            } catch (postError) {
+                // Discord answered about this channel, ie. it was deleted or the bot can't see it
+                if (!(postError instanceof DiscordAPIError)) throw postError;
+                this.logger.warn('Could not post an error report to the error channel', { guildId, channelId: errorChannelId, error: postError });
+            }
+        }
+    }
+
+    private cleanup(now: number) {
+        for (const [key, group] of this.groups) {
+            if (now - group.lastSeenAt > this.options.groupWindowMs) this.groups.delete(key);
+        }
+    }
+}
+
+function describeError(error: unknown): string {
+    return error instanceof Error ? `${error.name}: ${error.message}` : `${error}`;
+}
+
+// Numbers are left out so errors that only differ by an id or a time are grouped
+function fingerprint(error: unknown, context: ErrorContext): string {
+    const message = describeError(error).split('\n')[0].replace(/\d+/g, '#');
+    return [message, context.guildId ?? '', context.command ?? ''].join('|');
+}
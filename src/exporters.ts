@@ -0,0 +1,264 @@
+import { formatTagMessage, StreamTag } from "./stream";
+import { formatChapters, generateChapters } from "./chapters";
+
+export interface ExportContext {
+    title: string;
+    vodUrl: string;
+    durationSeconds: number;
+    // Only used by the timecode based formats
+    frameRate: number;
+}
+
+export interface TagExporter {
+    name: string;
+    extension: string;
+    export(tags: StreamTag[], context: ExportContext): string;
+}
+
+// How long a tag lasts in the formats that need an end time
+const TAG_DURATION_MS = 15000;
+
+export const DEFAULT_FRAME_RATE = 30;
+
+const srt: TagExporter = {
+    name: 'SRT',
+    extension: 'srt',
+    export(tags) {
+        return tags.map((tag, index) => {
+            const start = Math.max(tag.relativeTimestamp, 0);
+            // Stop before the next tag so subtitles never overlap
+            const next = tags[index + 1]?.relativeTimestamp ?? Infinity;
+            const end = Math.max(Math.min(start + TAG_DURATION_MS, next), start + 1000);
+            return `${index + 1}\n${formatSrtTime(start)} --> ${formatSrtTime(end)}\n${formatTagMessage(tag)}\n`;
+        }).join('\n');
+    }
+};
+
+const twitch: TagExporter = {
+    name: 'Twitch',
+    extension: 'md',
+    export(tags, { vodUrl }) {
+        return tags.map((tag, index) =>
+            `${index + 1} - [\`${tag.relativeTime}\`](<${vodUrl}?t=${tag.relativeTime}>) : ${tag.category ? `**#${tag.category}** ` : ''}${formatTagMessage(tag)}`
+        ).join('\n');
+    }
+};
+
+// CMX3600 with Resolve style marker comments, one single frame event per tag
+const edl: TagExporter = {
+    name: 'EDL (CMX3600)',
+    extension: 'edl',
+    export(tags, { title, frameRate }) {
+        const events = tags.map((tag, index) => {
+            const start = Math.max(tag.relativeTimestamp, 0);
+            const startTc = formatTimecode(start, frameRate);
+            const endTc = formatTimecode(start, frameRate, 1);
+            const number = (index + 1).toString().padStart(3, '0');
+            return `${number}  001      V     C        ${startTc} ${endTc} ${startTc} ${endTc}\n` +
+                ` |C:ResolveColorBlue |M:${singleLine(formatTagMessage(tag))} |D:1\n`;
+        });
+        return `TITLE: ${singleLine(title)}\nFCM: NON-DROP FRAME\n\n${events.join('\n')}`;
+    }
+};
+
+const davinciCsv: TagExporter = {
+    name: 'DaVinci Resolve markers (CSV)',
+    extension: 'csv',
+    export(tags, { frameRate }) {
+        const header = ['#', 'Name', 'Record In', 'Record Out', 'Color', 'Notes', 'Duration'];
+        const rows = tags.map((tag, index) => {
+            const start = Math.max(tag.relativeTimestamp, 0);
+            return [
+                index + 1,
+                tag.message,
+                formatTimecode(start, frameRate),
+                formatTimecode(start + TAG_DURATION_MS, frameRate),
+                'Blue',
+                `Tag de ${describeModerators(tag)}`,
+                Math.round(TAG_DURATION_MS / 1000 * frameRate)
+            ];
+        });
+        return toCsv([header, ...rows]);
+    }
+};
+
+const premiereCsv: TagExporter = {
+    name: 'Premiere Pro markers (CSV)',
+    extension: 'csv',
+    export(tags, { frameRate }) {
+        const header = ['Marker Name', 'Description', 'In', 'Out', 'Duration', 'Marker Type'];
+        const rows = tags.map(tag => {
+            const start = Math.max(tag.relativeTimestamp, 0);
+            return [
+                tag.message,
+                `Tag de ${describeModerators(tag)}`,
+                formatTimecode(start, frameRate),
+                formatTimecode(start, frameRate),
+                formatTimecode(0, frameRate),
+                'Comment'
+            ];
+        });
+        return toCsv([header, ...rows]);
+    }
+};
+
+const fcpxml: TagExporter = {
+    name: 'Final Cut Pro XML markers',
+    extension: 'fcpxml',
+    export(tags, { title, durationSeconds, frameRate }) {
+        const lastTag = Math.max(0, ...tags.map(tag => tag.relativeTimestamp));
+        const duration = toRationalTime(Math.max(durationSeconds * 1000, lastTag + TAG_DURATION_MS), frameRate);
+        const markers = tags.map(tag =>
+            `                            <marker start="${toRationalTime(Math.max(tag.relativeTimestamp, 0), frameRate)}" duration="1/${frameRate}s" value="${escapeXml(tag.message)}" note="${escapeXml(describeModerators(tag))}"/>`
+        );
+        const name = escapeXml(title);
+
+        return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<!DOCTYPE fcpxml>',
+            '<fcpxml version="1.9">',
+            '    <resources>',
+            `        <format id="r1" frameDuration="1/${frameRate}s" width="1920" height="1080"/>`,
+            '    </resources>',
+            '    <library>',
+            `        <event name="${name}">`,
+            `            <project name="${name}">`,
+            `                <sequence format="r1" duration="${duration}" tcStart="0s" tcFormat="NDF">`,
+            '                    <spine>',
+            `                        <gap name="Gap" offset="0s" start="0s" duration="${duration}">`,
+            ...markers,
+            '                        </gap>',
+            '                    </spine>',
+            '                </sequence>',
+            '            </project>',
+            '        </event>',
+            '    </library>',
+            '</fcpxml>',
+            ''
+        ].join('\n');
+    }
+};
+
+const csv: TagExporter = {
+    name: 'CSV',
+    extension: 'csv',
+    export(tags) {
+        const header = ['number', 'timestamp', 'relative_time', 'relative_seconds', 'moderator', 'merged_moderators', 'category', 'hashtags', 'message'];
+        const rows = tags.map((tag, index) => [
+            index + 1,
+            new Date(tag.timestamp).toISOString(),
+            tag.relativeTime,
+            Math.floor(tag.relativeTimestamp / 1000),
+            tag.moderator,
+            tag.mergedModerators.join(' '),
+            tag.category ?? '',
+            tag.hashtags.join(' '),
+            tag.message
+        ]);
+        return toCsv([header, ...rows]);
+    }
+};
+
+const json: TagExporter = {
+    name: 'JSON',
+    extension: 'json',
+    export(tags, { vodUrl }) {
+        return JSON.stringify(tags.map((tag, index) => ({
+            number: index + 1,
+            timestamp: new Date(tag.timestamp).toISOString(),
+            relativeTime: tag.relativeTime,
+            relativeSeconds: Math.floor(tag.relativeTimestamp / 1000),
+            moderator: tag.moderator,
+            mergedModerators: tag.mergedModerators,
+            category: tag.category,
+            hashtags: tag.hashtags,
+            message: tag.message,
+            url: `${vodUrl}?t=${tag.relativeTime}`
+        })), null, 4);
+    }
+};
+
+const youtube: TagExporter = {
+    name: 'YouTube chapters',
+    extension: 'txt',
+    export(tags, { durationSeconds }) {
+        return formatChapters(generateChapters(tags, { videoDuration: durationSeconds * 1000 }));
+    }
+};
+
+export const exporters = {
+    srt,
+    twitch,
+    edl,
+    davinci: davinciCsv,
+    premiere: premiereCsv,
+    fcpxml,
+    csv,
+    json,
+    youtube
+};
+
+export type ExportFormat = keyof typeof exporters;
+
+export function exportTags(format: ExportFormat, tags: StreamTag[], context: ExportContext): string {
+    return exporters[format].export(tags, context);
+}
+
+function splitTime(timeDiffMs: number) {
+    const ms = Math.max(Math.floor(timeDiffMs), 0);
+    return {
+        hours: Math.floor(ms / 3600000),
+        minutes: Math.floor((ms % 3600000) / 60000),
+        seconds: Math.floor((ms % 60000) / 1000),
+        milliseconds: ms % 1000
+    };
+}
+
+function pad(value: number, length: number = 2): string {
+    return value.toString().padStart(length, '0');
+}
+
+// 00:00:00,000
+export function formatSrtTime(timeDiffMs: number): string {
+    const { hours, minutes, seconds, milliseconds } = splitTime(timeDiffMs);
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)},${pad(milliseconds, 3)}`;
+}
+
+// 00:00:00:00 non drop frame, the extra frames are added after rounding down to a frame
+export function formatTimecode(timeDiffMs: number, frameRate: number, extraFrames: number = 0): string {
+    const totalFrames = Math.floor(Math.max(timeDiffMs, 0) * frameRate / 1000) + extraFrames;
+    const totalSeconds = Math.floor(totalFrames / frameRate);
+    const frames = totalFrames % frameRate;
+    const { hours, minutes, seconds } = splitTime(totalSeconds * 1000);
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}:${pad(frames)}`;
+}
+
+function toRationalTime(timeDiffMs: number, frameRate: number): string {
+    const frames = Math.round(timeDiffMs * frameRate / 1000);
+    return `${frames}/${frameRate}s`;
+}
+
+// The author first, then whoever's tags were merged into it
+function describeModerators(tag: StreamTag): string {
+    return [tag.moderator, ...tag.mergedModerators].join(', ');
+}
+
+function singleLine(text: string): string {
+    return text.replace(/\s*[\r\n]+\s*/g, ' ').trim();
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function toCsv(rows: (string | number)[][]): string {
+    return rows.map(row => row.map(value => {
+        const text = `${value}`;
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,33 @@
+import { BotCommand, BotCommandContext } from '@twurple/easy-bot';
+
+// Runs the check before the command, which only runs when the check returns true
+export type CommandCheck = (params: string[], context: BotCommandContext) => boolean | Promise<boolean>;
+
+// Wraps a command to add checks such as permissions or cooldowns without changing the command itself
+export class GuardedCommand extends BotCommand {
+    constructor(private command: BotCommand, private check: CommandCheck) {
+        super();
+    }
+
+    get name(): string {
+        return this.command.name;
+    }
+
+    get aliases(): string[] {
+        return this.command.aliases;
+    }
+
+    match(line: string, prefix: string): string[] | null {
+        return this.command.match(line, prefix);
+    }
+
+    canExecute(channelId: string, userId: string): boolean {
+        return this.command.canExecute(channelId, userId);
+    }
+
+    async execute(params: string[], context: BotCommandContext): Promise<void> {
+        if (await this.check(params, context)) {
+            await this.command.execute(params, context);
+        }
+    }
+}
@@ -0,0 +1,82 @@
+import { Guild, PermissionFlagsBits, PermissionsBitField } from "discord.js";
+import { HealthCheck } from "./health-monitor";
+import { GuildSettings } from "./storage/guild-settings-repository";
+
+export const HEALTH_CHECK_NAMES: Record<string, string> = {
+    'vanity': 'Link personalizado',
+    'permissions': 'Permisos del bot',
+    'twitch-token': 'Token de Twitch',
+    'eventsub': 'Eventos de Twitch'
+};
+
+// What the bot needs in the configured channels to post alerts and reports
+const CHANNEL_PERMISSIONS = {
+    ViewChannel: PermissionFlagsBits.ViewChannel,
+    SendMessages: PermissionFlagsBits.SendMessages,
+    EmbedLinks: PermissionFlagsBits.EmbedLinks
+};
+
+// What the mention guard needs in the whole guild to delete messages and time out members
+const GUILD_PERMISSIONS = {
+    ManageMessages: PermissionFlagsBits.ManageMessages,
+    ModerateMembers: PermissionFlagsBits.ModerateMembers
+};
+
+export function getGuildHealthChecks(guild: Guild, settings: GuildSettings): HealthCheck[] {
+    const checks: HealthCheck[] = [
+        { name: 'permissions', guildId: guild.id, run: async () => checkPermissions(guild, settings) }
+    ];
+
+    const vanityCode = settings.vanityCode;
+    if (vanityCode) {
+        checks.push({
+            name: 'vanity',
+            guildId: guild.id,
+            run: async () => {
+                // The cached guild is not updated when the link changes
+                const { vanityURLCode } = await guild.fetch();
+                return vanityURLCode === vanityCode
+                    ? { ok: true, detail: `discord.gg/${vanityCode}` }
+                    : { ok: false, detail: `El link del gremio dejó de funcionar, ahora es ${vanityURLCode ?? 'ninguno'}` };
+            }
+        });
+    }
+
+    return checks;
+}
+
+async function checkPermissions(guild: Guild, settings: GuildSettings) {
+    const me = await guild.members.fetchMe();
+    const problems: string[] = [];
+
+    const guildMissing = missing(me.permissions, GUILD_PERMISSIONS);
+    if (guildMissing.length > 0) {
+        problems.push(`Servidor: ${guildMissing.join(', ')}`);
+    }
+
+    const channelIds = new Set([settings.modChannelId, settings.logChannelId, settings.errorChannelId, settings.auditChannelId]);
+    for (const channelId of channelIds) {
+        if (!channelId) continue;
+
+        const channel = await guild.channels.fetch(channelId).catch(() => null);
+        if (!channel) {
+            problems.push(`<#${channelId}>: el canal no existe`);
+            continue;
+        }
+
+        const channelMissing = missing(channel.permissionsFor(me), CHANNEL_PERMISSIONS);
+        if (channelMissing.length > 0) {
+            problems.push(`<#${channelId}>: ${channelMissing.join(', ')}`);
+        }
+    }
+
+    return problems.length > 0
+        ? { ok: false, detail: `Faltan permisos:\n${problems.join('\n')}` }
+        : { ok: true, detail: 'El bot tiene todos los permisos' };
+}
+
+function missing(permissions: Readonly<PermissionsBitField>, required: Record<string, bigint>): string[] {
+    return Object.entries(required)
+        .filter(([, flag]) => !permissions.has(flag))
+        .map(([name]) => name);
+}
@@ -0,0 +1,120 @@
+import { logger } from "./logger";
+
+export interface HealthResult {
+    ok: boolean;
+    detail: string;
+}
+
+export interface HealthCheck {
+    name: string;
+    // Checks of the whole bot have no guild
+    guildId: string | null;
+    run(): Promise<HealthResult>;
+}
+
+export interface HealthStatus extends HealthResult {
+    name: string;
+    guildId: string | null;
+    checkedAt: Date;
+    // When the check last went from passing to failing or back
+    since: Date;
+}
+
+// Called when a check starts failing, and with `recovered` when it passes again
+export type HealthNotifier = (status: HealthStatus, recovered: boolean) => Promise<void>;
+
+export const DEFAULT_HEALTH_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+// Runs every check on an interval and remembers their last result.
+// The checks are listed again on every run so they follow changes to the settings.
+export class HealthMonitor {
+    private statuses = new Map<string, HealthStatus>();
+    private timer: NodeJS.Timeout | null = null;
+    private running: Promise<void> | null = null;
+    public lastRun: Date | null = null;
+
+    constructor(
+        private listChecks: () => Promise<HealthCheck[]>,
+        private notify: HealthNotifier,
+        private intervalMs: number = DEFAULT_HEALTH_CHECK_INTERVAL_MS
+    ) { }
+
+    start() {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.runChecks(), this.intervalMs);
+        this.runChecks();
+    }
+
+    stop() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    // Runs every check now, or waits for the run already in progress
+    async runChecks(): Promise<void> {
+        if (!this.running) {
+            this.running = this.run().finally(() => this.running = null);
+        }
+        return this.running;
+    }
+
+    // The checks of a guild and the ones of the whole bot
+    getStatuses(guildId: string): HealthStatus[] {
+        return [...this.statuses.values()].filter(status => status.guildId === null || status.guildId === guildId);
+    }
+
+    private async run() {
+        let checks: HealthCheck[];
+        try {
+            checks = await this.listChecks();
+        } catch (error) {
+            logger.error('Could not list the health checks', { error });
+            return;
+        }
+
+        const current = new Set<string>();
+
+        for (const check of checks) {
+            const key = `${check.guildId ?? 'bot'}:${check.name}`;
+            current.add(key);
+
+            const result = await runCheck(check);
+            const previous = this.statuses.get(key);
+            const now = new Date();
+            const changed = !previous || previous.ok !== result.ok;
+
+            const status: HealthStatus = {
+                ...result,
+                name: check.name,
+                guildId: check.guildId,
+                checkedAt: now,
+                since: changed ? now : previous.since
+            };
+            this.statuses.set(key, status);
+
+            // A check that passes the first time it runs has nothing to recover from
+            if (changed && (!result.ok || previous)) {
+                try {
+                    await this.notify(status, result.ok);
+                } catch (error) {
+                    logger.error('Could not send the health notice', { check: check.name, guildId: check.guildId, error });
+                }
+            }
+        }
+
+        // Checks that are not configured anymore
+        for (const key of this.statuses.keys()) {
+            if (!current.has(key)) this.statuses.delete(key);
+        }
+
+        this.lastRun = new Date();
+    }
+}
+
+async function runCheck(check: HealthCheck): Promise<HealthResult> {
+    try {
+        return await check.run();
+    } catch (error) {
+        return { ok: false, detail: `${error}` };
+    }
+}
@@ -1,89 +1,262 @@
-import { Client, Colors, EmbedBuilder, Events, GuildChannel, Message, TextChannel } from "discord.js";
+import { Client, Colors, EmbedBuilder, Events, Guild, GuildChannel, Message, TextChannel } from "discord.js";
 import { deployCommands } from "./deploy-commands";
 import { commands } from "./commands";
 import { config } from "./config";
 import { ApiClient, HelixVideo, UserIdResolvable } from '@twurple/api';
 import { EventSubWsListener } from '@twurple/eventsub-ws';
-import { Bot, createBotCommand } from '@twurple/easy-bot';
-import { AccessToken, RefreshingAuthProvider, exchangeCode } from '@twurple/auth';
+import { Bot, BotCommand, BotCommandContext, createBotCommand } from '@twurple/easy-bot';
+import { exchangeCode, getTokenInfo } from '@twurple/auth';
 import express from 'express';
+import session from 'express-session';
+import crypto from 'crypto';
+import { Server } from 'http';
 import dotenv from 'dotenv';
-import fs from 'fs/promises';
 import path from 'path';
+import {
+    findMergeableTag,
+    formatRelativeTime,
+    formatTagMessage,
+    getStreamOffset,
+    getTimeDifference,
+    hasTagModerator,
+    mergeTagMessage,
+    parseTagMessage,
+    shiftTag,
+    Stream,
+    StreamTag
+} from "./stream";
+import { openDatabase } from "./storage/database";
+import { StreamRepository } from "./storage/stream-repository";
+import { SqliteStreamRepository } from "./storage/sqlite-stream-repository";
+import { importJsonTags } from "./storage/json-importer";
+import { TagAliasRepository } from "./storage/tag-alias-repository";
+import { SqliteTagAliasRepository } from "./storage/sqlite-tag-alias-repository";
+import { TagAliasCommand } from "./tag-alias-command";
+import { MentionRule, MentionRuleRepository } from "./storage/mention-rule-repository";
+import { SqliteMentionRuleRepository } from "./storage/sqlite-mention-rule-repository";
+import { findMentionViolation, isImageUrl, mentionRuleFromEnvironment, MentionViolation } from "./mention-guard";
+import { EscalationStep, InfractionRepository } from "./storage/infraction-repository";
+import { SqliteInfractionRepository } from "./storage/sqlite-infraction-repository";
+import { describeStep, getDecayCutoff, getEscalationStep } from "./infractions";
+import { GuildSettingsRepository } from "./storage/guild-settings-repository";
+import { SqliteGuildSettingsRepository } from "./storage/sqlite-guild-settings-repository";
+import { HealthCheck, HealthMonitor, HealthResult, HealthStatus } from "./health-monitor";
+import { getGuildHealthChecks, HEALTH_CHECK_NAMES } from "./health-checks";
+import { AnnouncementRepository } from "./storage/announcement-repository";
+import { SqliteAnnouncementRepository } from "./storage/sqlite-announcement-repository";
+import { StreamAnnouncer } from "./stream-announcer";
+import { PermissionRepository } from "./storage/permission-repository";
+import { SqlitePermissionRepository } from "./storage/sqlite-permission-repository";
+import { CommandPermissions, describePermissionLevel, parsePermissionLevel } from "./command-permissions";
+import { ChannelSettingsRepository } from "./storage/channel-settings-repository";
+import { SqliteChannelSettingsRepository } from "./storage/sqlite-channel-settings-repository";
+import { CommandCooldowns } from "./command-cooldowns";
+import { ReplyLimiter } from "./reply-limiter";
+import { CustomCommand, CustomCommandRepository } from "./storage/custom-command-repository";
+import { SqliteCustomCommandRepository } from "./storage/sqlite-custom-command-repository";
+import { CustomTextCommand } from "./custom-text-command";
+import { TimedMessageRepository } from "./storage/timed-message-repository";
+import { SqliteTimedMessageRepository } from "./storage/sqlite-timed-message-repository";
+import { ChatTimers } from "./chat-timers";
+import { VipRepository } from "./storage/vip-repository";
+import { SqliteVipRepository } from "./storage/sqlite-vip-repository";
+import { describeVipExpiry, VipManager } from "./vip-manager";
+import { parseDuration } from "./duration";
+import { AuditRepository } from "./storage/audit-repository";
+import { SqliteAuditRepository } from "./storage/sqlite-audit-repository";
+import { AuditLog } from "./audit-log";
+import { logger, parseLogLevel } from "./logger";
+import { ErrorReporter } from "./error-reporter";
+import {
+    describeIdentity,
+    getRequiredScopes,
+    IDENTITY_SCOPES,
+    TokenFileConnector,
+    TWITCH_IDENTITIES,
+    TwitchConnection,
+    TwitchConnector,
+    TwitchIdentity,
+    verifyLinkedAccount
+} from "./twitch-connector";
+import { escapeHtml, renderAuthStatusPage } from "./auth-status-page";
+import { metrics } from "./metrics";
+import { GuardedCommand } from "./guarded-command";
+import { PendingWork } from "./pending-work";
+import { Simulation } from "./simulation/simulation";
+import { answersOn, BUILTIN_TWITCH_COMMANDS, CommandVariables, describePlatform, parseCommandName, parsePlatformFlag, renderCommandResponse } from "./custom-commands";
 
 dotenv.config();
-
-interface StreamTag {
-    timestamp: Date;
-    relativeTime: string;
-    relativeTimestamp: number;
-    moderator: string;
-    message: string;
-}
-
-class Stream {
-    id: string;
-    startTime: Date;
-    delay: number;
-    vodDelay: number;
-    tags: StreamTag[];
-
-    constructor(id: string, startTime: Date, delay: number = 10, vodDelay: number = 0, tags: StreamTag[] = []) {
-        this.id = id;
-        this.startTime = startTime;
-        this.delay = delay;
-        this.vodDelay = delay;
-        this.tags = tags
-    }
-}
+logger.configure({ level: parseLogLevel(config.LOG_LEVEL), filePath: config.LOG_PATH ?? null });
 
 const globalDelay = Number.parseInt(config.TWITCH_GLOBAL_DELAY ?? "0")
 
-async function saveStream(stream: Stream) {
-    try {
-        fs.writeFile(`./tags.${stream.id}.json`, JSON.stringify(stream, null, 4), 'utf-8');
-    } catch (error) {
-        warnError(error)
-    }
+const database = openDatabase(config.DATABASE_PATH ?? './botshi.db');
+export const streamRepository: StreamRepository = new SqliteStreamRepository(database);
+const tagAliasRepository: TagAliasRepository = new SqliteTagAliasRepository(database);
+export const mentionRuleRepository: MentionRuleRepository = new SqliteMentionRuleRepository(database);
+export const infractionRepository: InfractionRepository = new SqliteInfractionRepository(database);
+export const guildSettingsRepository: GuildSettingsRepository = new SqliteGuildSettingsRepository(database);
+const announcementRepository: AnnouncementRepository = new SqliteAnnouncementRepository(database);
+const permissionRepository: PermissionRepository = new SqlitePermissionRepository(database);
+const channelSettingsRepository: ChannelSettingsRepository = new SqliteChannelSettingsRepository(database);
+export const customCommandRepository: CustomCommandRepository = new SqliteCustomCommandRepository(database);
+export const timedMessageRepository: TimedMessageRepository = new SqliteTimedMessageRepository(database);
+const vipRepository: VipRepository = new SqliteVipRepository(database);
+export const auditRepository: AuditRepository = new SqliteAuditRepository(database);
+
+// The built-in commands are exported at 0 before they first run, custom commands and aliases once they run
+for (const command of BUILTIN_TWITCH_COMMANDS) {
+    metrics.commandsRun.init({ platform: 'twitch', command });
+}
+for (const command of [...Object.keys(commands), 'custom-command']) {
+    metrics.commandsRun.init({ platform: 'discord', command });
 }
 
 export async function loadStream(id: string): Promise<Stream | null> {
     try {
-        const stream = JSON.parse(await fs.readFile(`./tags.${id}.json`, 'utf-8'));
-        return stream;
+        return await streamRepository.getStream(id);
     } catch (error) {
+        errorReporter.report(error)
         return null
     }
 }
 
 async function getStoredStreamOrNew(id: string, startDate: Date): Promise<Stream> {
-    const storedStream = await loadStream(id);
+    const storedStream = await streamRepository.getStream(id);
     if (storedStream) {
-        console.log(`Loaded stream ${storedStream.id} from cache with ${storedStream.tags.length} tags`);
+        logger.info('Loaded stream from the database', { streamId: storedStream.id, tags: storedStream.tags.length });
         return storedStream
     }
-    console.log(`Started a new stream with id ${id}`);
-    return new Stream(id, startDate, globalDelay, 0, []);
+    logger.info('Started a new stream', { streamId: id });
+    const stream = new Stream(id, startDate, globalDelay, 0, []);
+    await streamRepository.saveStream(stream);
+    return stream;
+}
+
+// Twitch ends streams after 48 hours, an older stream without an end time is not resumed
+const MAX_STREAM_MS = 48 * 60 * 60 * 1000;
+
+declare module 'express-session' {
+    interface SessionData {
+        isAuthAdmin: boolean;
+        // The OAuth flow that was started, the callback must come back with the same state
+        oauthIdentity: TwitchIdentity;
+        oauthState: string;
+        // Asked for again with more scopes when the account turns out to be linked as the other identity too
+        oauthScopes: string[];
+    }
+}
+
+const AUTH_SESSION_MS = 60 * 60 * 1000;
+
+// Twitch is started again after a failure, waiting twice as long after every failure in a row
+const TWITCH_RETRY_MIN_MS = 5 * 1000;
+const TWITCH_RETRY_MAX_MS = 5 * 60 * 1000;
+// twurple reconnects EventSub by itself, Twitch is only restarted when it doesn't manage to in this time
+const EVENTSUB_RESTART_MS = 2 * 60 * 1000;
+// How long stopping waits for the commands that are still writing
+const SHUTDOWN_FLUSH_MS = 10 * 1000;
+
+// Compares secrets in constant time
+function safeEqual(text: string, expected: string): boolean {
+    const a = crypto.createHash('sha256').update(text).digest();
+    const b = crypto.createHash('sha256').update(expected).digest();
+    return crypto.timingSafeEqual(a, b);
+}
+
+// The parts of EventSub's stream.online event the announcements use
+interface StreamOnlineEvent {
+    id: string;
+    broadcasterId: string;
+    broadcasterName: string;
+    broadcasterDisplayName: string;
+    startDate: Date;
 }
 
 class TwitchBot {
     private bot: Bot | null = null;
     private apiClient: ApiClient | null = null;
     private eventListener: EventSubWsListener | null = null;
-    private authProvider: RefreshingAuthProvider | null = null;
+    private connection: TwitchConnection | null = null;
+    private eventSubConnected = false;
+    private eventSubRestartTimer: NodeJS.Timeout | null = null;
     private app: express.Application;
-    private readonly TOKEN_PATH = path.join(__dirname, 'tokens.json');
+    private server: Server | null = null;
+    // Start, stop and restart run one at a time, in the order they were asked for
+    private transition: Promise<void> = Promise.resolve();
+    private retryTimer: NodeJS.Timeout | null = null;
+    private retries = 0;
+    private pendingWork = new PendingWork();
     private broadcaster: UserIdResolvable | null = null;
     private stream: Stream | null = null;
+    private permissions = new CommandPermissions(permissionRepository);
+    private cooldowns = new CommandCooldowns(channelSettingsRepository);
+    private replyLimiter = new ReplyLimiter();
+    private customCommands = new CustomTextCommand(customCommandRepository, (command, params, { reply, userDisplayName, broadcasterName }) =>
+        reply(renderCommandResponse(command.response, getCommandVariables(userDisplayName, params, broadcasterName)))
+    );
+    private chatTimers = new ChatTimers(timedMessageRepository, message => this.sayInChat(message), error => errorReporter.report(error));
+    private tagAliases = new TagAliasCommand(tagAliasRepository, (category, params, context) =>
+        this.createTag(params.join(' '), category, context)
+    );
 
-    constructor() {
+    constructor(private connector: TwitchConnector) {
         this.app = express();
+        // Before the session of the auth pages, the supervisor doesn't need a cookie
+        this.setupStatusRoutes();
         this.setupOAuth();
     }
 
+    // /healthz answers while the process runs, /readyz only when every component is connected
+    private setupStatusRoutes() {
+        this.app.get('/healthz', (_req, res) => {
+            res.json({ status: 'ok', uptimeSeconds: Math.round(process.uptime()), components: listComponents() });
+        });
+
+        this.app.get('/readyz', (_req, res) => {
+            const components = listComponents();
+            const ready = Object.values(components).every(component => component.ok);
+            res.status(ready ? 200 : 503).json({ status: ready ? 'ready' : 'not ready', components });
+        });
+
+        this.app.get('/metrics', (_req, res) => {
+            const components = Object.entries(listComponents());
+            res.type('text/plain; version=0.0.4').send(metrics.render([{
+                name: 'botshi_component_up',
+                help: 'Whether the component is connected',
+                values: components.map(([component, { ok }]) => ({ labels: { component }, value: ok ? 1 : 0 }))
+            }]));
+        });
+    }
+
     private setupOAuth() {
+        // The session only carries the OAuth state and whether the visitor gave AUTH_SECRET, so it doesn't outlive the process
+        this.app.set('trust proxy', 1);
+        this.app.use(session({
+            secret: crypto.randomBytes(32).toString('hex'),
+            resave: false,
+            saveUninitialized: false,
+            cookie: { httpOnly: true, sameSite: 'lax', secure: 'auto', maxAge: AUTH_SESSION_MS }
+        }));
+
         this.app.get('/auth/callback', async (req, res) => {
+            if (!this.canSaveTokens(res)) return;
+
             const code = req.query.code as string;
+            const identity = req.session.oauthIdentity;
+            const expectedState = req.session.oauthState;
+            const requestedScopes = req.session.oauthScopes ?? [];
+
+            // A state is only good for one callback
+            delete req.session.oauthIdentity;
+            delete req.session.oauthState;
+            delete req.session.oauthScopes;
+
+            if (!identity || !expectedState || !safeEqual(`${req.query.state}`, expectedState)) {
+                logger.warn('OAuth callback with an unknown state', { ip: req.ip });
+                res.status(403).send('This login was not started here, start it again from /auth');
+                return;
+            }
 
             if (!code) {
                 res.status(400).send('Missing authorization code');
@@ -92,237 +265,875 @@ class TwitchBot {
 
             try {
                 const tokenData = await exchangeCode(
-                    process.env.TWITCH_CLIENT_ID!,
-                    process.env.TWITCH_CLIENT_SECRET!,
+                    config.TWITCH_CLIENT_ID,
+                    config.TWITCH_CLIENT_SECRET,
                     code,
                     `https://${config.DOMAIN}/auth/callback`
                 );
 
-                await this.saveTokens(tokenData);
-                await this.initializeBot();
+                const info = await getTokenInfo(tokenData.accessToken, config.TWITCH_CLIENT_ID);
+                const problem = verifyLinkedAccount(identity, info, identity === 'broadcaster' ? config.TWITCH_BROADCASTER : config.TWITCH_BOT_USERNAME);
+                if (problem) {
+                    logger.warn('Refused a Twitch account', { identity, user: info.userName, problem });
+                    auditLog.record({ platform: 'bot', action: 'auth-failed', actor: info.userName ?? 'desconocido', detail: `Cuenta del ${describeIdentity(identity)}: ${problem}` });
+                    res.status(403).send(`${escapeHtml(problem)}. Start again from <a href="/auth">/auth</a>.`);
+                    return;
+                }
+
+                // The account keeps a single token, it must also work for the other identity when it is linked to it
+                const required = getRequiredScopes(await this.connector.getIdentities(), identity, info.userId!);
+                const missing = required.filter(scope => !info.scopes.includes(scope));
+                if (missing.length > 0) {
+                    if (required.every(scope => requestedScopes.includes(scope))) {
+                        const problem = `The account did not grant ${missing.join(', ')}, it is linked as the bot and the streamer`;
+                        logger.warn('Refused a Twitch account', { identity, user: info.userName, problem });
+                        auditLog.record({ platform: 'bot', action: 'auth-failed', actor: info.userName!, detail: `Cuenta del ${describeIdentity(identity)}: ${problem}` });
+                        res.status(403).send(`${escapeHtml(problem)}. Start again from <a href="/auth">/auth</a>.`);
+                        return;
+                    }
+
+                    logger.info('Asking again with the scopes of both identities', { identity, user: info.userName });
+                    res.redirect(this.startAuthorization(req, identity, required));
+                    return;
+                }
+
+                const linked = { identity, userId: info.userId!, userName: info.userName!, scopes: info.scopes };
+                await this.connector.saveTokens(linked, tokenData);
+                await this.restart();
 
-                res.send('Authentication successful! You can close this window.');
+                auditLog.record({ platform: 'bot', action: 'auth-login', actor: linked.userName, detail: `Cuenta del ${describeIdentity(identity)}` });
+
+                res.send(`Linked ${escapeHtml(linked.userName)} as the ${describeIdentity(identity)} account! You can close this window or go back to <a href="/auth">/auth</a>.`);
             } catch (error) {
-                console.error('Error during authentication:', error);
+                logger.error('Twitch authentication failed', { identity, error });
+                auditLog.record({ platform: 'bot', action: 'auth-failed', actor: 'desconocido', detail: `Cuenta del ${describeIdentity(identity)}: ${error}` });
                 res.status(500).send('Authentication failed');
             }
         });
 
-        this.app.get('/auth', (_req, res) => {
-            const scopes = ['chat:read', 'chat:edit', 'channel:manage:vips', 'channel:manage:broadcast'];
-            const authUrl = `https://id.twitch.tv/oauth2/authorize?client_id=${process.env.TWITCH_CLIENT_ID}&redirect_uri=https://${config.DOMAIN}/auth/callback&response_type=code&scope=${scopes.join('+')}`;
-            res.redirect(authUrl);
+        for (const identity of TWITCH_IDENTITIES) {
+            this.app.get(`/auth/${identity}`, (req, res) => {
+                if (!this.isAuthAdmin(req, res)) return;
+
+                res.redirect(this.startAuthorization(req, identity, IDENTITY_SCOPES[identity]));
+            });
+        }
+
+        this.app.get('/auth', async (req, res) => {
+            if (!this.isAuthAdmin(req, res)) return;
+
+            try {
+                res.send(renderAuthStatusPage(await this.connector.getIdentities()));
+            } catch (error) {
+                errorReporter.report(error, { source: 'auth' });
+                res.status(500).send('Could not read the linked accounts');
+            }
         });
     }
 
-    private async saveTokens(tokenData: AccessToken): Promise<void> {
-        try {
-            await fs.writeFile(this.TOKEN_PATH, JSON.stringify(tokenData, null, 2));
-            console.log('Tokens saved successfully');
-        } catch (error) {
-            console.error('Error saving tokens:', error);
-            throw error;
+    // The tokens are only saved encrypted, without the key no account is linked
+    private canSaveTokens(res: express.Response): boolean {
+        if (!config.TOKEN_ENCRYPTION_KEY) {
+            res.status(503).send('Set TOKEN_ENCRYPTION_KEY to link Twitch accounts');
+            return false;
         }
+        return true;
     }
 
-    private async loadTokens(): Promise<AccessToken | null> {
-        try {
-            const data = await fs.readFile(this.TOKEN_PATH, 'utf-8');
-            return JSON.parse(data);
-        } catch (error) {
-            console.log('No saved tokens found');
-            return null;
+    // Only who knows AUTH_SECRET may see or change the linked accounts. Opening /auth?secret=... once is enough for the session.
+    private isAuthAdmin(req: express.Request, res: express.Response): boolean {
+        if (!this.canSaveTokens(res)) return false;
+        if (!config.AUTH_SECRET) {
+            res.status(503).send('Set AUTH_SECRET to link Twitch accounts');
+            return false;
+        }
+        if (req.session.isAuthAdmin) return true;
+
+        const secret = req.query.secret;
+        if (typeof secret === 'string' && safeEqual(secret, config.AUTH_SECRET)) {
+            req.session.isAuthAdmin = true;
+            // Keeps the secret out of the address bar and the history
+            res.redirect(req.path);
+            return false;
         }
+
+        logger.warn('Refused an auth page without the secret', { path: req.path, ip: req.ip });
+        res.status(401).send('Open /auth?secret=... with the AUTH_SECRET of the bot');
+        return false;
     }
 
+    // Keeps the flow in the session and returns where to send the visitor.
+    // force_verify lets the bot account be linked from a browser logged in as the broadcaster.
+    private startAuthorization(req: express.Request, identity: TwitchIdentity, scopes: string[]): string {
+        req.session.oauthIdentity = identity;
+        req.session.oauthState = crypto.randomBytes(16).toString('hex');
+        req.session.oauthScopes = scopes;
+
+        const params = new URLSearchParams({
+            client_id: config.TWITCH_CLIENT_ID,
+            redirect_uri: `https://${config.DOMAIN}/auth/callback`,
+            response_type: 'code',
+            scope: scopes.join(' '),
+            state: req.session.oauthState,
+            force_verify: 'true'
+        });
+        return `https://id.twitch.tv/oauth2/authorize?${params}`;
+    }
+
+    // Throws when Twitch could not be set up, restart retries it
     private async initializeBot() {
-        const tokenData = await this.loadTokens();
+        this.connection = await this.connector.connect();
 
-        if (!tokenData) {
-            console.log('No tokens found. Please authenticate first.');
+        if (!this.connection) {
+            logger.warn('The bot account is not linked, authenticate first');
             return;
         }
 
-        this.authProvider = new RefreshingAuthProvider({
-            clientId: process.env.TWITCH_CLIENT_ID!,
-            clientSecret: process.env.TWITCH_CLIENT_SECRET!
+        const listener = this.connection.eventListener;
+        this.apiClient = this.connection.apiClient;
+        this.eventListener = listener;
+        // A listener that was replaced may still report its socket closing
+        listener.onUserSocketConnect(() => {
+            if (listener === this.eventListener) this.onEventSubConnect();
         });
+        listener.onUserSocketDisconnect((_userId, error) => {
+            if (listener === this.eventListener) this.onEventSubDisconnect(error);
+        });
+        vipManager.start();
 
-        this.authProvider.onRefresh(
-            async (userId, newTokenData) => {
-                await this.saveTokens(newTokenData);
-            }
-        )
-
-        await this.authProvider.addUserForToken(tokenData, ['chat']);
-
-        this.apiClient = new ApiClient({ authProvider: this.authProvider });
-        this.eventListener = new EventSubWsListener({ apiClient: this.apiClient });
+        await this.syncStream();
 
         try {
-            const currentStream = await this.apiClient.streams.getStreamByUserName(config.TWITCH_BROADCASTER)
-            if (currentStream) {
-                console.log(`Stream ${currentStream.id} in progress started on ${currentStream?.startDate}`)
-                this.stream = await getStoredStreamOrNew(currentStream.id, currentStream.startDate)
-            } else {
-                console.log(`Stream is not online`);
-            }
+            await this.tagAliases.load(config.TWITCH_BROADCASTER)
+            await this.customCommands.load()
         } catch (error) {
-            warnError(error)
+            errorReporter.report(error)
         }
 
-        const modError = 'Solo los moderadores pueden usar este comando.';
+        const commands: BotCommand[] = [
+            createBotCommand('tag', async (params, context) => {
+                await this.createTag(params.join(' '), null, context);
+            }),
 
-        this.bot = new Bot({
-            authProvider: this.authProvider,
-            channels: [config.TWITCH_BROADCASTER],
-            commands: [
-                createBotCommand('tag', async (params, { reply, msg }) => {
+            createBotCommand('tagalias', async (params, { reply, broadcasterName }) => {
+                const [action, alias, category] = params.map(param => param.replace(/^[!#]/, '').toLowerCase());
 
-                    if (!this.stream) {
-                        warnError(new Error("New tag attempted but there is no stream"))
-                        reply("Error: No hay stream")
-                        return;
+                try {
+                    if (action === 'add' && alias && category) {
+                        await tagAliasRepository.setAlias(broadcasterName, alias, category);
+                        await this.tagAliases.load(broadcasterName);
+                        reply(`Ahora !${alias} crea tags #${category}`);
+                    } else if (action === 'remove' && alias) {
+                        const removed = await tagAliasRepository.removeAlias(broadcasterName, alias);
+                        await this.tagAliases.load(broadcasterName);
+                        reply(removed ? `Se quitó !${alias}` : `!${alias} no existe`);
+                    } else if (!action) {
+                        const aliases = await this.tagAliases.load(broadcasterName);
+                        reply(`Alias de tags: ${aliases.map(entry => `!${entry.alias} (#${entry.category})`).join(', ') || 'ninguno'}`);
+                    } else {
+                        reply('Se usa así: !tagalias add alias categoria, !tagalias remove alias o !tagalias');
                     }
+                } catch (error) {
+                    errorReporter.report(error, { command: 'tagalias' })
+                    reply("Error: No se pudieron cambiar los alias")
+                }
+            }),
+
+            createBotCommand('untag', async (_params, { reply, userName }) => {
+                await this.reloadStream();
+
+                if (!this.stream) {
+                    reply("Error: No hay stream")
+                    return;
+                }
+
+                const tag = [...this.stream.tags].reverse().find(tag => hasTagModerator(tag, userName));
+
+                if (!tag?.id) {
+                    reply('No tienes tags en este stream.');
+                    return;
+                }
+
+                try {
+                    await streamRepository.deleteTag(tag.id, userName);
+                    await this.reloadStream();
+                } catch (error) {
+                    errorReporter.report(error, { command: 'untag' })
+                    reply("Error: No se pudo borrar el tag")
+                    return;
+                }
+
+                reply(`Se borró tu tag del minuto ${tag.relativeTime}: ${formatTagMessage(tag)}`);
+            }),
+
+            createBotCommand('edittag', async (params, context) => {
+                const message = params.slice(1).join(' ');
+
+                if (params.length < 2 || !message) {
+                    context.reply('Se usa así: !edittag numero texto');
+                    return;
+                }
 
-                    const now = new Date();
-                    const timeDiff = getTimeDifference(now, this.stream.startTime, globalDelay)
-                    const relativeTime = formatRelativeTime(timeDiff);
+                const tag = await this.findEditableTag(params[0], context);
+                if (!tag) return;
+
+                try {
+                    await streamRepository.updateTag(tag.id!, parseTagMessage(message, tag.category), context.userName);
+                    await this.reloadStream();
+                } catch (error) {
+                    errorReporter.report(error, { command: 'edittag' })
+                    context.reply("Error: No se pudo editar el tag")
+                    return;
+                }
+
+                context.reply(`Se editó el tag ${params[0]} del minuto ${tag.relativeTime}`);
+            }),
+
+            createBotCommand('retime', async (params, context) => {
+                const seconds = Number.parseInt(params[1] ?? '');
+
+                if (Number.isNaN(seconds)) {
+                    context.reply('Se usa así: !retime numero ±segundos');
+                    return;
+                }
+
+                const tag = await this.findEditableTag(params[0], context);
+                if (!tag) return;
+
+                const changes = shiftTag(tag, seconds);
+
+                if (changes.relativeTimestamp < 0) {
+                    context.reply('El tag quedaría antes del inicio del stream.');
+                    return;
+                }
+
+                try {
+                    await streamRepository.updateTag(tag.id!, changes, context.userName);
+                    await this.reloadStream();
+                } catch (error) {
+                    errorReporter.report(error, { command: 'retime' })
+                    context.reply("Error: No se pudo mover el tag")
+                    return;
+                }
+
+                context.reply(`Se movió el tag ${params[0]} al minuto ${changes.relativeTime}`);
+            }),
+
+            createBotCommand('delay', async (params, { reply }) => {
+                await this.reloadStream();
+
+                if (!this.stream) {
+                    reply("Error: No hay stream")
+                    return;
+                }
+
+                if (params.length === 0) {
+                    reply(`El delay del stream es de ${this.stream.delay} segundos.`);
+                    return;
+                }
+
+                const delay = Number.parseInt(params[0]);
+
+                if (Number.isNaN(delay) || delay < 0) {
+                    reply('Se usa así: !delay segundos');
+                    return;
+                }
+
+                try {
+                    this.stream.delay = delay;
+                    await streamRepository.saveStream(this.stream);
+                } catch (error) {
+                    errorReporter.report(error, { command: 'delay' })
+                    reply("Error: No se pudo cambiar el delay")
+                    return;
+                }
 
-                    const tag: StreamTag = {
-                        timestamp: now,
-                        relativeTime,
-                        relativeTimestamp: timeDiff,
-                        moderator: msg.userInfo.userName,
-                        message: `${params.join(' ')}`
-                    };
+                // Exports recalculate every tag from its raw timestamp, the times already shown in chat stay as they are
+                reply(`El delay del stream ahora es de ${delay} segundos. Los tags anteriores se corrigen al exportar el vod.`);
+            }),
 
-                    this.stream.tags.push(tag);
+            createBotCommand('vip', async (params, { reply, userName }) => {
+                if (params.length === 0) {
+                    reply('Especifica a quien hay que agregarle vip. Se usa así: !vip nombre [7d]');
+                    return;
+                }
 
-                    saveStream(this.stream)
+                const username = params[0].replace('@', '');
+                const duration = parseDuration(params[1]);
 
-                    reply(`Se ha creado el tag en el minuto ${relativeTime}`);
-                }),
+                if (params[1] && !duration) {
+                    reply('La duración se escribe así: 30m, 12h, 7d o 2w');
+                    return;
+                }
 
-                createBotCommand('vip', async (params, { reply, msg }) => {
-                    const isModerator = msg.userInfo.isMod || msg.userInfo.isBroadcaster;
+                try {
+                    const result = await vipManager.grant(username, duration, userName, 'twitch');
 
-                    if (!isModerator) {
-                        reply(modError);
+                    if (result.status === 'not-found') {
+                        reply(`El usuario @${username} no existe.`);
                         return;
                     }
 
-                    // Check if a username was provided
-                    if (params.length === 0) {
-                        reply('Especifica a quien hay que agregarle vip. Se usa asi: !vip nombre');
+                    const expiry = result.grant.expiresAt ? ` por ${describeVipExpiry(result.grant)}` : '';
+                    reply(result.status === 'granted'
+                        ? `Se le agregó VIP a @${result.grant.userName}${expiry}!`
+                        : `@${result.grant.userName} ya es VIP, ahora ${expiry ? `vence en ${describeVipExpiry(result.grant)}` : 'no vence'}.`);
+                } catch (error) {
+                    logger.error('Could not add the VIP', { command: 'vip', user: username, error });
+                    reply(`Error al agregarle VIP a @${username}. Revisa el nombre de usuario y vuelvelo a intentar.`);
+                }
+            }),
+
+            createBotCommand('unvip', async (params, { reply, userName }) => {
+                if (params.length === 0) {
+                    reply('Especifica a quien hay que quitarle vip. Se usa así: !unvip nombre');
+                    return;
+                }
+
+                const username = params[0].replace('@', '');
+
+                try {
+                    const result = await vipManager.remove(username, userName, 'twitch');
+
+                    if (result === 'not-found') {
+                        reply(`El usuario @${username} no existe.`);
+                    } else if (result === 'not-vip') {
+                        reply(`@${username} no es VIP.`);
+                    } else {
+                        reply(`Se le quitó VIP a @${username}!`);
+                    }
+                } catch (error) {
+                    logger.error('Could not remove the VIP', { command: 'unvip', user: username, error });
+                    reply(`Error al quitarle VIP a @${username}. Revisa el nombre de usuario y vuelvelo a intentar.`);
+                }
+            }),
+
+            createBotCommand('viplist', async (_params, { reply }) => {
+                try {
+                    const vips = await vipManager.getVips();
+
+                    if (vips.length === 0) {
+                        reply('El bot no ha dado ningún VIP.');
                         return;
                     }
 
-                    if (!bot) {
-                        console.error("Bot is null")
+                    const list = vips.map(grant => `${grant.userName} (${describeVipExpiry(grant)})`).join(', ');
+                    // Twitch cuts messages at 500 characters
+                    reply(`VIPs: ${list}`.slice(0, 500));
+                } catch (error) {
+                    errorReporter.report(error, { command: 'viplist' })
+                    reply("Error: No se pudo cargar la lista de VIPs")
+                }
+            }),
+
+            createBotCommand('perm', async (params, context) => {
+                const [name, levelName] = params.map(param => param.replace(/^!/, '').toLowerCase());
+                const command = name === 'tag-alias' ? undefined : commands.find(command => command.name === name);
+
+                if (!name || !command) {
+                    context.reply('Se usa así: !perm comando nivel. Niveles: todos, suscriptores, vips, editores, moderadores, streamer');
+                    return;
+                }
+
+                if (!levelName) {
+                    const level = await this.permissions.getLevel(context.broadcasterName, name);
+                    context.reply(`!${name} lo pueden usar: ${describePermissionLevel(level)}`);
+                    return;
+                }
+
+                const level = parsePermissionLevel(levelName);
+
+                if (!level) {
+                    context.reply(`El nivel ${levelName} no existe. Niveles: todos, suscriptores, vips, editores, moderadores, streamer`);
+                    return;
+                }
+
+                try {
+                    if (!await this.permissions.setLevel(context.broadcasterName, name, level)) {
+                        context.reply(`No se puede cambiar quién usa !${name}`);
+                        return;
                     }
+                } catch (error) {
+                    errorReporter.report(error, { command: 'perm' })
+                    context.reply("Error: No se pudo cambiar el permiso")
+                    return;
+                }
+
+                context.reply(`Ahora !${name} lo pueden usar: ${describePermissionLevel(level)}`);
+            }),
 
-                    const username = params[0].replace('@', ''); // Remove @ if present
-
-                    try {
-                        // Add VIP status
-                        await this.bot?.addVip(config.TWITCH_BROADCASTER, username);
-                        reply(`Se le agregó VIP a @${username}!`);
-                    } catch (error) {
-                        // Handle specific error cases
-                        if (error instanceof Error) {
-                            if (error.message.includes('already VIP')) {
-                                reply(`@${username} ya es VIP!`);
-                            } else if (error.message.includes('not found')) {
-                                reply(`El usuario @${username} no existe.`);
-                            } else {
-                                console.error('Error adding VIP:', error);
-                                reply(`Error al agregarle VIP a @${username}. Revisa el nombre de usuario y vuelvelo a intentar.`);
-                            }
-                        }
+            createBotCommand('cooldown', async (params, { reply, broadcasterName }) => {
+                const name = params[0]?.replace(/^!/, '').toLowerCase();
+                const [globalSeconds, userSeconds] = params.slice(1).map(param => Number.parseInt(param));
+
+                if (!name || !commands.some(command => command.name === name)) {
+                    reply('Se usa así: !cooldown comando segundos [segundos por usuario]');
+                    return;
+                }
+
+                try {
+                    if (params.length === 1) {
+                        const cooldown = await channelSettingsRepository.getCooldown(broadcasterName, name);
+                        reply(`!${name} tiene ${cooldown.globalSeconds} segundos de espera, ${cooldown.userSeconds} por usuario`);
+                        return;
                     }
-                }),
 
-                createBotCommand('unvip', async (params, { reply, msg }) => {
-                    const isModerator = msg.userInfo.isMod || msg.userInfo.isBroadcaster;
+                    const isValid = (seconds: number | undefined) => seconds === undefined || (!Number.isNaN(seconds) && seconds >= 0);
 
-                    if (!isModerator) {
-                        reply(modError);
+                    if (!isValid(globalSeconds) || !isValid(userSeconds)) {
+                        reply('Se usa así: !cooldown comando segundos [segundos por usuario]');
                         return;
                     }
 
-                    // Check if a username was provided
+                    await channelSettingsRepository.setCooldown(broadcasterName, name, { globalSeconds, userSeconds: userSeconds ?? 0 });
+                    reply(`Ahora !${name} tiene ${globalSeconds} segundos de espera, ${userSeconds ?? 0} por usuario`);
+                } catch (error) {
+                    errorReporter.report(error, { command: 'cooldown' })
+                    reply("Error: No se pudo cambiar la espera")
+                }
+            }),
+
+            createBotCommand('tagmerge', async (params, { reply, broadcasterName }) => {
+                try {
                     if (params.length === 0) {
-                        reply('Especifica a quien hay que quitarle vip. Se usa así: !unvip nombre');
+                        const seconds = await channelSettingsRepository.getTagMergeSeconds(broadcasterName);
+                        reply(seconds > 0 ? `Los tags con menos de ${seconds} segundos de diferencia se juntan` : 'Los tags no se juntan');
                         return;
                     }
 
-                    if (!bot) {
-                        console.error("Bot is null")
+                    const seconds = Number.parseInt(params[0]);
+
+                    if (Number.isNaN(seconds) || seconds < 0) {
+                        reply('Se usa así: !tagmerge segundos, 0 para no juntar tags');
+                        return;
                     }
 
-                    const username = params[0].replace('@', ''); // Remove @ if present
+                    await channelSettingsRepository.setTagMergeSeconds(broadcasterName, seconds);
+                    reply(seconds > 0 ? `Ahora los tags con menos de ${seconds} segundos de diferencia se juntan` : 'Ahora los tags no se juntan');
+                } catch (error) {
+                    errorReporter.report(error, { command: 'tagmerge' })
+                    reply("Error: No se pudo cambiar cómo se juntan los tags")
+                }
+            }),
 
-                    try {
-                        // Add VIP status
-                        await this.bot?.removeVip(config.TWITCH_BROADCASTER, username);
-                        reply(`Se le quitó VIP a @${username}!`);
-                    } catch (error) {
-                        // Handle specific error cases
-                        if (error instanceof Error) {
-                            if (error.message.includes('already VIP')) {
-                                reply(`@${username} ya es VIP!`);
-                            } else if (error.message.includes('not found')) {
-                                reply(`El usuario @${username} no existe.`);
-                            } else {
-                                console.error('Error adding VIP:', error);
-                                reply(`Error al quitarle VIP a @${username}. Revisa el nombre de usuario y vuelvelo a intentar.`);
-                            }
-                        }
+            createBotCommand('addcom', async (params, { reply, userName }) => {
+                await this.saveCustomCommand(params, userName, reply, false);
+            }),
+
+            createBotCommand('editcom', async (params, { reply, userName }) => {
+                await this.saveCustomCommand(params, userName, reply, true);
+            }),
+
+            createBotCommand('delcom', async (params, { reply }) => {
+                const name = parseCommandName(params[0]);
+
+                if (!name) {
+                    reply('Se usa así: !delcom comando');
+                    return;
+                }
+
+                try {
+                    const deleted = await customCommandRepository.deleteCommand(name, null);
+                    await this.customCommands.load();
+                    reply(deleted ? `Se borró !${name}` : `!${name} no existe`);
+                } catch (error) {
+                    errorReporter.report(error, { command: 'delcom' })
+                    reply("Error: No se pudo borrar el comando")
+                }
+            }),
+
+            createBotCommand('editor', async (params, { reply, broadcasterName }) => {
+                const [action, user] = params.map(param => param.replace('@', '').toLowerCase());
+
+                try {
+                    if (action === 'add' && user) {
+                        await permissionRepository.addEditor(broadcasterName, user);
+                        reply(`@${user} ahora es editor`);
+                    } else if (action === 'remove' && user) {
+                        const removed = await permissionRepository.removeEditor(broadcasterName, user);
+                        reply(removed ? `@${user} ya no es editor` : `@${user} no era editor`);
+                    } else if (!action) {
+                        const editors = await permissionRepository.getEditors(broadcasterName);
+                        reply(`Editores: ${editors.join(', ') || 'ninguno'}`);
+                    } else {
+                        reply('Se usa así: !editor add usuario, !editor remove usuario o !editor');
                     }
-                })
-            ]
-        })
+                } catch (error) {
+                    errorReporter.report(error, { command: 'editor' })
+                    reply("Error: No se pudieron cambiar los editores")
+                }
+            }),
+        ];
+
+        // Aliases create tags, so they share the permission and cooldown of !tag
+        this.bot = this.connection.createBot(config.TWITCH_BROADCASTER, [
+            ...commands.map(command => this.guard(command)),
+            this.guard(this.tagAliases, 'tag'),
+            this.guard(this.customCommands)
+        ])
+        this.bot.onMessage(() => this.chatTimers.countChatLine());
+
         await this.setupEventSubscriptions();
     }
 
-    private async setupEventSubscriptions() {
-        if (!this.eventListener || !this.apiClient) return;
+    // Starts Twitch, or starts it again after dropping what was running.
+    // Failures are retried with backoff, a bot account that is not linked waits for /auth instead.
+    public restart(): Promise<void> {
+        this.transition = this.transition.then(async () => {
+            this.teardown();
 
+            try {
+                await this.initializeBot();
+                this.retries = 0;
+            } catch (error) {
+                errorReporter.report(error, { source: 'twitch-start' });
+                this.teardown();
+                this.scheduleRetry();
+            }
+        });
+        return this.transition;
+    }
+
+    // Stops Twitch and the web server, then waits for the commands that are still writing
+    public async stop() {
+        this.transition = this.transition.then(() => this.teardown());
+        await this.transition;
+        this.server?.close();
+
+        const pending = this.pendingWork.size;
+        if (!await this.pendingWork.flush(SHUTDOWN_FLUSH_MS)) {
+            logger.warn('Stopped before every pending write finished', { pending: this.pendingWork.size });
+        } else if (pending > 0) {
+            logger.info('Finished the pending writes', { pending });
+        }
+    }
+
+    // Drops the Twitch clients, the listeners registered on them go with them
+    private teardown() {
+        if (this.retryTimer) clearTimeout(this.retryTimer);
+        if (this.eventSubRestartTimer) clearTimeout(this.eventSubRestartTimer);
+        this.retryTimer = null;
+        this.eventSubRestartTimer = null;
+
+        this.chatTimers.stop();
+        vipManager.stop();
+
+        const bot = this.bot;
+        const eventListener = this.eventListener;
+        this.bot = null;
+        this.eventListener = null;
+        this.apiClient = null;
+        this.connection = null;
+        this.eventSubConnected = false;
+
+        // Each one is closed even when the other fails
+        try {
+            bot?.chat.quit();
+        } catch (error) {
+            logger.warn('Could not close the Twitch chat', { error });
+        }
         try {
-            this.broadcaster = await this.apiClient.users.getUserByName(config.TWITCH_BROADCASTER);
-            if (!this.broadcaster) {
-                throw new Error(`Could not find user ${config.TWITCH_BROADCASTER}`);
+            eventListener?.stop();
+        } catch (error) {
+            logger.warn('Could not stop EventSub', { error });
+        }
+    }
+
+    private scheduleRetry() {
+        const delay = Math.min(TWITCH_RETRY_MIN_MS * 2 ** this.retries, TWITCH_RETRY_MAX_MS);
+        this.retries++;
+        logger.warn('Could not start Twitch, trying again', { seconds: delay / 1000, attempt: this.retries });
+
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            this.restart();
+        }, delay);
+    }
+
+    // Stream events may have been missed while starting or while EventSub was disconnected
+    private async syncStream() {
+        if (!this.apiClient) return;
+
+        // After the bot restarts, the stream it was following is only in the database
+        this.stream ??= await streamRepository.findUnfinishedStream(new Date(Date.now() - MAX_STREAM_MS));
+        const current = await this.apiClient.streams.getStreamByUserName(config.TWITCH_BROADCASTER);
+
+        if (!current) {
+            if (this.stream) {
+                logger.info('Stream ended while the bot was not listening', { streamId: this.stream.id });
+                await this.endStream();
+            } else {
+                logger.info('Stream is not online');
             }
+            return;
+        }
 
-            this.eventListener.onStreamOnline(this.broadcaster.id, event => {
-                this.stream = new Stream(event.id, event.startDate, globalDelay, 0, [])
-                try {
-                    fs.writeFile(`./tags.${this.stream.id}.json`, JSON.stringify(this.stream, null, 4), 'utf-8');
-                } catch (error) {
-                    warnError(error)
-                }
-                console.log(`Stream started at ${this.stream.startTime}`);
-            });
+        if (current.id !== this.stream?.id) {
+            // It ended before the current one started at the latest
+            if (this.stream) await this.endStream(current.startDate);
+            logger.info('Stream in progress', { streamId: current.id, startDate: current.startDate });
+            this.stream = await getStoredStreamOrNew(current.id, current.startDate);
+        }
+        this.chatTimers.start();
+    }
+
+    private onEventSubConnect() {
+        const reconnected = this.eventSubRestartTimer !== null;
+        this.eventSubConnected = true;
+
+        if (this.eventSubRestartTimer) clearTimeout(this.eventSubRestartTimer);
+        this.eventSubRestartTimer = null;
+
+        if (reconnected) {
+            logger.info('EventSub reconnected, checking the stream');
+            this.syncStream().catch(error => errorReporter.report(error, { source: 'eventsub' }));
+        }
+    }
+
+    private onEventSubDisconnect(error?: Error) {
+        this.eventSubConnected = false;
+        logger.warn('EventSub disconnected', { error });
+
+        if (this.eventSubRestartTimer) return;
+        this.eventSubRestartTimer = setTimeout(() => {
+            this.eventSubRestartTimer = null;
+            errorReporter.report(new Error('EventSub did not reconnect, restarting Twitch'), { source: 'eventsub' });
+            this.restart();
+        }, EVENTSUB_RESTART_MS);
+    }
+
+    // Timed messages share the rate limit of the replies
+    private async sayInChat(message: string): Promise<boolean> {
+        if (!this.bot || !this.replyLimiter.tryAcquire()) return false;
+        await this.bot.say(config.TWITCH_BROADCASTER, message);
+        return true;
+    }
 
-            this.eventListener.onStreamOffline(this.broadcaster.id, _event => {
-                console.log(`Stream ended at ${new Date()}`);
-                this.stream = null;
+    // Every command goes through the rate limit of the replies, its permission level and its cooldown, in that order.
+    // Stopping waits for the commands that are running.
+    private guard(command: BotCommand, name: string = command.name): BotCommand {
+        return this.pendingWork.guard(
+            this.replyLimiter.guard(this.permissions.guard(this.cooldowns.guard(this.countRuns(command, name), name), name))
+        );
+    }
+
+    // Innermost, so commands that were refused or in cooldown are not counted
+    private countRuns(command: BotCommand, name: string): BotCommand {
+        return new GuardedCommand(command, () => {
+            metrics.commandsRun.inc({ platform: 'twitch', command: name });
+            return true;
+        });
+    }
+
+    // !addcom name [-twitch|-discord|-ambos] response, !editcom keeps the platform when there is no flag
+    private async saveCustomCommand(params: string[], userName: string, reply: (text: string) => unknown, isEdit: boolean) {
+        const usage = `Se usa así: !${isEdit ? 'editcom' : 'addcom'} comando [-twitch, -discord o -ambos] respuesta`;
+        const name = parseCommandName(params[0]);
+        const { platform, response } = parsePlatformFlag(params.slice(1));
+
+        if (!name || !response) {
+            reply(usage);
+            return;
+        }
+
+        try {
+            const existing = await customCommandRepository.getCommand(name, null);
+
+            if (!isEdit && (existing || await isReservedCommandName(name))) {
+                reply(`!${name} ya existe`);
+                return;
+            }
+            if (isEdit && !existing) {
+                reply(`!${name} no existe, créalo con !addcom`);
+                return;
+            }
+
+            const saved = await customCommandRepository.saveCommand({
+                guildId: null,
+                name,
+                response,
+                platform: platform ?? existing?.platform ?? 'both',
+                updatedBy: userName,
+                updatedAt: new Date()
             });
+            await this.customCommands.load();
+            reply(`Se ${isEdit ? 'editó' : 'creó'} !${name} en ${describePlatform(saved.platform)}`);
+        } catch (error) {
+            errorReporter.report(error, { command: isEdit ? 'editcom' : 'addcom' })
+            reply("Error: No se pudo guardar el comando")
+        }
+    }
+
+    private async createTag(text: string, category: string | null, { reply, userName, broadcasterName }: BotCommandContext) {
+        if (!this.stream) {
+            errorReporter.report(new Error("New tag attempted but there is no stream"), { command: 'tag' })
+            reply("Error: No hay stream")
+            return;
+        }
+
+        const now = new Date();
+        const timeDiff = getTimeDifference(now, this.stream.startTime, getStreamOffset(this.stream))
+        const relativeTime = formatRelativeTime(timeDiff);
 
-            this.eventListener.start();
-            console.log('Successfully subscribed to stream events');
+        const parsed = parseTagMessage(text, category);
+
+        try {
+            const mergeSeconds = await channelSettingsRepository.getTagMergeSeconds(broadcasterName);
+            const duplicate = findMergeableTag(this.stream.tags, now, mergeSeconds);
+
+            if (duplicate?.id) {
+                await streamRepository.updateTag(duplicate.id, mergeTagMessage(duplicate, parsed, userName), userName);
+                await this.reloadStream();
+                reply(`Se juntó con el tag de ${duplicate.moderator} del minuto ${duplicate.relativeTime}`);
+                auditLog.record({ platform: 'twitch', action: 'tag-merge', actor: userName, target: duplicate.moderator, detail: `${duplicate.relativeTime} ${text}` });
+                return;
+            }
         } catch (error) {
-            console.error('Error setting up event subscriptions:', error);
+            errorReporter.report(error, { command: 'tag', streamId: this.stream?.id })
         }
+
+        const tag: StreamTag = {
+            timestamp: now,
+            relativeTime,
+            relativeTimestamp: timeDiff,
+            moderator: userName,
+            mergedModerators: [],
+            ...parsed
+        };
+
+        try {
+            this.stream.tags.push(await streamRepository.addTag(this.stream.id, tag));
+        } catch (error) {
+            errorReporter.report(error, { command: 'tag', streamId: this.stream?.id })
+            reply("Error: No se pudo guardar el tag")
+            return;
+        }
+
+        metrics.tagsCreated.inc();
+        reply(`Se ha creado el tag ${tag.category ? `#${tag.category} ` : ''}en el minuto ${relativeTime}`);
+        auditLog.record({ platform: 'twitch', action: 'tag-create', actor: userName, detail: `${relativeTime} ${tag.message}` });
     }
 
-    public async start(port: number = 3000) {
-        await this.initializeBot();
+    private async reloadStream() {
+        if (!this.stream) return;
+        this.stream = await streamRepository.getStream(this.stream.id) ?? this.stream;
+    }
+
+    // Resolves the tag number shown in chat to a tag the user may change: their own tags and the ones their tags were merged into, or any tag for mods
+    private async findEditableTag(position: string | undefined, context: BotCommandContext): Promise<StreamTag | null> {
+        const { userName, reply } = context;
+
+        // Tags may have been changed from Discord in the meantime
+        await this.reloadStream();
+
+        if (!this.stream) {
+            reply("Error: No hay stream")
+            return null;
+        }
+
+        const index = Number.parseInt(position ?? '') - 1;
+        const tag = this.stream.tags[index];
+
+        if (!tag?.id) {
+            reply(`No existe el tag ${position}. Hay ${this.stream.tags.length} tags en este stream.`);
+            return null;
+        }
+
+        if (!hasTagModerator(tag, userName) && !await this.permissions.hasLevel(context, 'moderator')) {
+            reply('Solo puedes cambiar tus propios tags.');
+            return null;
+        }
+
+        return tag;
+    }
+
+    private async setupEventSubscriptions() {
+        if (!this.eventListener || !this.apiClient) return;
+
+        this.broadcaster = await this.apiClient.users.getUserByName(config.TWITCH_BROADCASTER);
+        if (!this.broadcaster) {
+            throw new Error(`Could not find user ${config.TWITCH_BROADCASTER}`);
+        }
 
-        this.app.listen(port, () => {
-            console.log(`Visit https://${config.DOMAIN}/auth to authenticate with Twitch`);
+        this.eventListener.onStreamOnline(this.broadcaster.id, event => this.pendingWork.run(async () => {
+            try {
+                this.stream = await getStoredStreamOrNew(event.id, event.startDate)
+                logger.info('Stream started', { streamId: event.id, startTime: this.stream.startTime });
+            } catch (error) {
+                errorReporter.report(error, { streamId: event.id })
+            }
+
+            this.chatTimers.start();
+
+            try {
+                await this.announceStreamOnline(event)
+            } catch (error) {
+                errorReporter.report(error, { streamId: event.id })
+            }
+        }));
+
+        this.eventListener.onStreamOffline(this.broadcaster.id, async _event => {
+            logger.info('Stream ended', { streamId: this.stream?.id });
+            await this.endStream();
+        });
+
+        this.eventListener.start();
+        logger.info('Subscribed to stream events');
+    }
+
+    // The end time is now unless the stream is known to have ended earlier
+    private endStream(endTime: Date = new Date()): Promise<void> {
+        return this.pendingWork.run(async () => {
+            const stream = this.stream;
+            this.stream = null;
+            this.chatTimers.stop();
+
+            if (!stream) return;
+
+            // The end time places the tags of a restarted stream after this one in the vod
+            try {
+                stream.endTime = endTime;
+                await streamRepository.saveStream(stream);
+            } catch (error) {
+                errorReporter.report(error, { streamId: stream.id })
+            }
+
+            try {
+                await streamAnnouncer.announceOffline(stream.id, new Date(stream.startTime), endTime);
+            } catch (error) {
+                errorReporter.report(error, { streamId: stream.id })
+            }
+        });
+    }
+
+    // The stream may not be listed by the API for a few seconds after it starts, the channel info is the fallback
+    private async announceStreamOnline(event: StreamOnlineEvent) {
+        const stream = await this.apiClient?.streams.getStreamByUserId(event.broadcasterId);
+        const channel = stream ? null : await this.apiClient?.channels.getChannelInfoById(event.broadcasterId);
+
+        await streamAnnouncer.announceOnline({
+            streamId: event.id,
+            broadcasterName: event.broadcasterName,
+            broadcasterDisplayName: event.broadcasterDisplayName,
+            title: stream?.title ?? channel?.title ?? '',
+            gameName: stream?.gameName ?? channel?.gameName ?? '',
+            thumbnailUrl: stream?.getThumbnailUrl(1280, 720) ?? null,
+            startDate: event.startDate
+        });
+    }
+
+    // Listens first, so /auth and the health endpoints answer while Twitch starts
+    public async start(port: number = 3000) {
+        this.server = this.app.listen(port, () => {
+            logger.info(`Visit https://${config.DOMAIN}/auth to authenticate with Twitch`, { port });
         });
+
+        await this.restart();
+    }
+
+    // The simulation has nothing to authenticate, so the web server is not started
+    public async startOffline() {
+        await this.restart();
     }
 
     public getTags(): StreamTag[] {
@@ -337,28 +1148,42 @@ class TwitchBot {
         return await this.apiClient!.videos.getVideoById(id)
     }
 
+    public getApiClient(): ApiClient | null {
+        return this.apiClient;
+    }
+
     public getActiveStream(): Stream | null {
         return this.stream
     }
-}
-
-export function getTimeDifference(date1: Date, date2: Date, delay: number): number {
-    return (new Date(date1).getTime()) - new Date(date2).getTime() - (delay * 1000);
-}
 
-export function formatRelativeTime(timeDiffMs: number): string {
-    const hours = Math.floor(timeDiffMs / 3600000);
-    const minutes = Math.floor((timeDiffMs % 3600000) / 60000);
-    const seconds = Math.floor((timeDiffMs % 60000) / 1000);
+    // Asks Twitch whether the stored token still works, refreshing it first when it expired
+    public async checkToken(): Promise<HealthResult> {
+        if (!this.connection) {
+            return { ok: false, detail: `No hay cuenta del bot, vincúlala en https://${config.DOMAIN}/auth` };
+        }
+        return this.connection.checkToken();
+    }
 
-    // Format as 0h:0m:0s for twitch timestamp
-    const hoursStr = hours.toString()
-    const minutesStr = minutes.toString()
-    const secondsStr = seconds.toString()
+    public checkChat(): HealthResult {
+        if (!this.bot) {
+            return { ok: false, detail: 'No hay conexión con Twitch' };
+        }
+        return this.bot.chat.isConnected
+            ? { ok: true, detail: 'Conectado' }
+            : { ok: false, detail: 'Desconectado del chat' };
+    }
 
-    return `${hoursStr}h${minutesStr}m${secondsStr}s`;
+    public checkEventSub(): HealthResult {
+        if (!this.eventListener) {
+            return { ok: false, detail: 'No hay conexión con Twitch' };
+        }
+        return this.eventSubConnected
+            ? { ok: true, detail: 'Conectado' }
+            : { ok: false, detail: 'Desconectado, no se detectarán los streams' };
+    }
 }
 
+export { getTimeDifference, formatRelativeTime };
 
 
 
@@ -381,28 +1206,11 @@ export function formatRelativeTime(timeDiffMs: number): string {
 
 
 
-// List of role IDs to monitor for mentions
-const TARGET_USER_ROLES = (config.TARGET_USER_ROLES || '')
-    .split(',')
-    .map(id => id.trim())
-    .filter(id => id); // Remove any empty strings
-
-// Whitelist of channel IDs where mentions are allowed
-const WHITELISTED_CHANNEL_IDS = (config.WHITELISTED_CHANNELS || '')
-    .split(',')
-    .map(id => id.trim())
-    .filter(id => id); // Remove any empty strings
-
-// Roles that are allowed to mention target users
-const ALLOWED_ROLE_IDS = (config.ALLOWED_ROLE_IDS || '')
-    .split(',')
-    .map(id => id.trim())
-    .filter(id => id); // Remove any empty strings
 
-const MOD_CHANNEL = config.MOD_CHANNEL_ID || ""
+// SIMULATION swaps Twitch and Discord for the fakes in src/simulation, see src/simulate.ts
+export const simulation = config.SIMULATION ? new Simulation(config.TWITCH_BROADCASTER) : null;
 
-
-const discordClient = new Client({
+const discordClient = simulation ? simulation.discord.client : new Client({
     intents: [
         "Guilds",
         "GuildMessages",
@@ -411,220 +1219,441 @@ const discordClient = new Client({
     ]
 });
 
-var himieWasWarned: Boolean = false
+const streamAnnouncer = new StreamAnnouncer(discordClient, guildSettingsRepository, announcementRepository,
+    (error, guildId) => errorReporter.report(error, { guildId: guildId }));
+
+const errorReporter = new ErrorReporter(discordClient, guildSettingsRepository, logger);
+
+// Errors nobody caught, Discord's own errors are only logged since reporting them may need Discord
+discordClient.on(Events.Error, error => logger.error('Discord client error', { error }));
+process.on('unhandledRejection', error => errorReporter.report(error, { source: 'unhandledRejection' }));
 
-discordClient.on(Events.GuildAvailable, async (guild) => {
-    await deployCommands({ guildId: guild.id });
+export const auditLog = new AuditLog(discordClient, auditRepository, guildSettingsRepository,
+    (error, guildId) => errorReporter.report(error, { guildId: guildId }));
+
+// Joining a new guild sets it up like the ones the bot was already in when it started
+discordClient.on(Events.GuildCreate, async (guild) => {
+    await deployCommands({ guildIds: [guild.id] });
+    await seedGuildSettings(guild);
+    await seedMentionRules(guild.id);
 });
 
+// MOD_CHANNEL_ID becomes the mod channel of the guild it belongs to
+async function seedGuildSettings(guild: Guild) {
+    try {
+        const settings = await guildSettingsRepository.getSettings(guild.id);
+        const modChannelId = config.MOD_CHANNEL_ID;
+
+        if (!settings.modChannelId && modChannelId && guild.channels.cache.has(modChannelId)) {
+            await guildSettingsRepository.saveSettings({ ...settings, modChannelId });
+            logger.info('Using MOD_CHANNEL_ID as the mod channel', { guildId: guild.id });
+        }
+    } catch (error) {
+        errorReporter.report(error, { guildId: guild.id })
+    }
+}
+
+// New guilds start with the rule from the environment variables, only once
+async function seedMentionRules(guildId: string) {
+    try {
+        const settings = await guildSettingsRepository.getSettings(guildId);
+        if (settings.mentionRulesSeeded) return;
+
+        const rules = await mentionRuleRepository.getRules(guildId);
+        const environmentRule = mentionRuleFromEnvironment(guildId);
+
+        if (rules.length === 0 && environmentRule) {
+            await mentionRuleRepository.saveRule(environmentRule);
+            logger.info('Created a mention rule from the environment', { guildId, rule: environmentRule.name });
+        }
+        // Once the guild has had a rule, deleting every rule leaves it without any
+        if (rules.length > 0 || environmentRule) {
+            await guildSettingsRepository.saveSettings({ ...settings, mentionRulesSeeded: true });
+        }
+    } catch (error) {
+        errorReporter.report(error, { guildId })
+    }
+}
+
 discordClient.on(Events.InteractionCreate, async (interaction) => {
-    // console.log(interaction)
-    if (!interaction.isChatInputCommand()) {
-        console.log("Interaction is not a command")
+    // Buttons and modals belong to the command named at the start of their custom id
+    if (interaction.isButton() || interaction.isModalSubmit()) {
+        const [commandName] = interaction.customId.split(':');
+        const command = commands[commandName as keyof typeof commands];
+        if (command && 'handleComponent' in command) {
+            try {
+                await command.handleComponent(interaction)
+            } catch (error) {
+                errorReporter.report(error, { guildId: interaction.guildId ?? undefined, command: commandName })
+            }
+        }
         return;
     }
-    console.log("Interaction is a command")
+
+    if (!interaction.isChatInputCommand()) return;
+
     const { commandName } = interaction;
-    if (commands[commandName as keyof typeof commands]) {
-        console.log("executing command")
-        try {
-            commands[commandName as keyof typeof commands].execute(interaction)
-        } catch (error) {
-            warnError(error)
-        }
-    } else {
-        console.log("I have no idea what this is but you fucked up")
+    const command = commands[commandName as keyof typeof commands];
+    if (!command) {
+        logger.warn('Received an unknown command', { guildId: interaction.guildId, command: commandName });
+        return;
+    }
+
+    logger.debug('Running command', { guildId: interaction.guildId, command: commandName, user: interaction.user.username });
+    metrics.commandsRun.inc({ platform: 'discord', command: commandName });
+    try {
+        await command.execute(interaction)
+    } catch (error) {
+        errorReporter.report(error, { guildId: interaction.guildId ?? undefined, command: commandName })
     }
 });
 
 discordClient.once("ready", async () => {
-    console.log(`Logged in as ${discordClient.user?.tag}`);
+    logger.info('Logged in to Discord', { user: discordClient.user?.tag });
 
-    // Verify configuration
-    if (TARGET_USER_ROLES.length === 0) {
-        warnError('No TARGET_USER_ROLES set in the environment variables');
-    }
+    const guilds = await discordClient.guilds.fetch();
+    await deployCommands({ guildIds: [...guilds.keys()] });
 
-    if (WHITELISTED_CHANNEL_IDS.length === 0) {
-        console.warn('No whitelisted channels specified. The bot will not allow mentions anywhere.');
-    }
+    for (const partialGuild of guilds.values()) {
+        // A guild that can't be fetched is skipped, the others are still set up
+        let guild: Guild;
+        try {
+            guild = await partialGuild.fetch();
+        } catch (error) {
+            errorReporter.report(error, { guildId: partialGuild.id });
+            continue;
+        }
+        const channels = guild.channels;
+        const roles = guild.roles;
 
-    const guild = await discordClient.guilds.fetch('957359495154126848');
-    const channels = guild.channels;
-    const roles = guild.roles;
+        await seedGuildSettings(guild);
+        await seedMentionRules(guild.id);
 
-    const roleNames = ALLOWED_ROLE_IDS.map(id => roles.cache.get(id)?.name);
-    const channelNames = WHITELISTED_CHANNEL_IDS.map(id => channels.cache.get(id)?.name);
-    const targetRoles = TARGET_USER_ROLES.map(id => roles.cache.get(id)?.name);
+        const rules = await mentionRuleRepository.getRules(guild.id);
 
-    console.log('Target Roles:', targetRoles);
-    console.log('Whitelisted Channels:', channelNames);
-    console.log('Allowed Roles:', roleNames);
-    console.log('Discord bot is ready!');
-    console.log(`Twitch broadcaster target: ${config.TWITCH_BROADCASTER}`)
-});
+        logger.info('Setting up guild', { guildId: guild.id, guild: guild.name });
 
-// Check if user has any of the allowed roles
-function hasAllowedRole(message: Message): boolean {
-    // If no roles are specified, default to no exceptions
-    if (ALLOWED_ROLE_IDS.length === 0) return false;
+        if (rules.length === 0) {
+            errorReporter.report(`No mention rules set in ${guild.name}. Use /mentionguard to create one.`, { guildId: guild.id });
+        }
 
-    // Check if the message author has any of the allowed roles
-    return message.member?.roles.cache.some(role =>
-        ALLOWED_ROLE_IDS.includes(role.id)
-    ) || false;
-}
+        for (const rule of rules) {
+            logger.info('Mention rule', {
+                guildId: guild.id,
+                rule: rule.name,
+                action: rule.action,
+                protectedRoles: rule.protectedRoles.map(id => roles.cache.get(id)?.name),
+                exemptRoles: rule.exemptRoles.map(id => roles.cache.get(id)?.name),
+                allowedChannels: rule.allowedChannels.map(id => channels.cache.get(id)?.name)
+            });
+        }
+    }
 
-async function handleMaiMention(message: Message) {
-    const isInWhitelistedChannel = WHITELISTED_CHANNEL_IDS.includes(message.channelId);
-    const hasExemptRole = hasAllowedRole(message);
+    healthMonitor.start();
 
-    if (!isInWhitelistedChannel && !hasExemptRole) {
-        try {
-            let isReply = false;
-            if (message.reference && message.reference.messageId) {
-                try {
-                    const repliedMessage = await message.fetchReference();
-                    isReply = repliedMessage.member?.roles.cache.some(role =>
-                        TARGET_USER_ROLES.includes(role.id)
-                    ) || false;
-                } catch (error) {
-                    warnError(error);
-                }
-            }
+    logger.info('Discord bot is ready', { broadcaster: config.TWITCH_BROADCASTER });
+});
 
+// The rule is enforced first, a broken log channel or audit log doesn't let the mention through
+async function handleMaiMention(message: Message<true>, violation: MentionViolation) {
+    const { rule, isReply } = violation
+    let deleted = false
+    let infraction: { strikes: number, step: EscalationStep | null } | null = null
+
+    try {
+        if (rule.action !== 'delete') {
             const author = message.author
-            const warningMessageDescription = isReply ?
-                `Las reglas dicen que no puedes taggearme a mi o a mis amigas vtubers. ¡Quita el tag antes de responder y no me hagas @!` :
-                `¡Las reglas dicen que no puedes hacerme @!`
             const warningEmbed = new EmbedBuilder()
                 .setColor(Colors.Red)
                 .setTitle('¡No me menciones!')
-                .setDescription(warningMessageDescription)
-                .setFooter({ text: 'Mensaje borrado' })
-                .setImage(isReply ? 'https://i.imgur.com/lhJDl0w.png' : null)
+                .setDescription(isReply ? rule.replyWarningText : rule.warningText)
+                .setFooter(rule.action === 'both' ? { text: 'Mensaje borrado' } : null)
+                // Rules saved before the link was checked may not have a valid one
+                .setImage(isReply && isImageUrl(rule.warningImage) ? rule.warningImage : null)
                 .setAuthor({ name: author.displayName, iconURL: author.displayAvatarURL() })
 
             // Send warning message
-            const warningMessage = await message.reply({
+            await message.reply({
                 embeds: [warningEmbed],
                 allowedMentions: { repliedUser: true } // Mention the user in the warning
             });
+        }
 
-            const testChannel = await discordClient.channels.fetch('998102501360422992') as TextChannel
-
-            const embed = new EmbedBuilder()
-                .setAuthor({ name: message.author.displayName, iconURL: message.author.displayAvatarURL() })
-                .setTitle(`Boshito ${message.author.displayName} intentó mencionar a Mai ${message.url}`)
-                .setDescription(message.toString())
-                .setColor(Colors.Red)
-
-            await testChannel.send({
-                embeds: [embed],
-            });
-
+        if (rule.action !== 'warn') {
             // Delete the original message
             await message.delete();
-            console.log(`Deleted a message ${isReply ? 'replying to' : 'mentioning'} a target user from ${message.author.tag} in non-whitelisted channel`);
-        } catch (error) {
-            warnError(error);
+            deleted = true
+            metrics.mentionDeletions.inc();
+            logger.info('Deleted a forbidden mention', { guildId: message.guildId, user: message.author.tag, rule: rule.name, isReply });
         }
-    }
-}
 
-async function checkIfForbiddenMention(message: Message<boolean>) {
-    const isMentioningTargetUsers = message.mentions.members?.some(member =>
-        member.roles.cache.some(role =>
-            TARGET_USER_ROLES.includes(role.id)
-        )
-    );
+        infraction = await recordInfraction(message, rule.name)
+        await applyEscalation(message, infraction.strikes, infraction.step)
+    } catch (error) {
+        errorReporter.report(error, { guildId: message.guildId });
+    }
 
-    if (isMentioningTargetUsers) {
-        handleMaiMention(message);
+    try {
+        await logMaiMention(message, rule, deleted, infraction);
+    } catch (error) {
+        errorReporter.report(error, { guildId: message.guildId, source: 'mention-log' });
     }
 }
 
-async function replyToDiscordCommand(message: Message) {
-    if (message.toString().toLowerCase().trim() === '!discord') {
-        message.reply({
-            content: "https://discord.com/invite/gremionoboshi"
+// Strikes are unknown when enforcing the rule failed before they were counted
+async function logMaiMention(message: Message<true>, rule: MentionRule, deleted: boolean, infraction: { strikes: number, step: EscalationStep | null } | null) {
+    if (deleted) {
+        auditLog.record({
+            platform: 'discord',
+            action: 'mention-delete',
+            actor: discordClient.user?.username ?? 'botshi',
+            target: message.author.username,
+            detail: `Regla ${rule.name}: ${message.content}`,
+            guildId: message.guildId
         });
     }
+
+    const settings = await guildSettingsRepository.getSettings(message.guildId)
+    if (!settings.logChannelId) return;
+
+    const logChannel = await discordClient.channels.fetch(settings.logChannelId) as TextChannel
+
+    const embed = new EmbedBuilder()
+        .setAuthor({ name: message.author.displayName, iconURL: message.author.displayAvatarURL() })
+        .setTitle(`Boshito ${message.author.displayName} intentó mencionar a Mai ${message.url}`)
+        .setDescription(message.toString())
+        .setFooter({ text: `Regla: ${rule.name}` })
+        .addFields({ name: 'Strikes', value: infraction ? `${infraction.strikes} (${describeStep(infraction.step)})` : 'Desconocidos' })
+        .setColor(Colors.Red)
+
+    await logChannel.send({
+        embeds: [embed],
+    });
 }
 
-async function checkIfGuildCustomLinkIsInactive() {
-    const guild = await discordClient.guilds.fetch('957359495154126848');
-    const guildLink = guild.vanityURLCode
+// Adds a strike to the author and returns what their active strikes escalate to
+async function recordInfraction(message: Message<true>, ruleName: string): Promise<{ strikes: number, step: EscalationStep | null }> {
+    const settings = await infractionRepository.getEscalation(message.guildId)
+
+    await infractionRepository.addInfraction({
+        guildId: message.guildId,
+        userId: message.author.id,
+        ruleName,
+        messageUrl: message.url,
+        content: message.content,
+        createdAt: new Date(),
+        pardonedAt: null,
+        pardonedBy: null
+    })
+
+    const active = await infractionRepository.getActiveInfractions(message.guildId, message.author.id, getDecayCutoff(settings))
+    return { strikes: active.length, step: getEscalationStep(settings.steps, active.length) };
+}
 
-    if (guildLink === "gremionoboshi") {
-        himieWasWarned = false;
-        return;
+async function applyEscalation(message: Message<true>, strikes: number, step: EscalationStep | null) {
+    if (step?.action === 'timeout' && step.durationMinutes) {
+        const member = message.member ?? await message.guild.members.fetch(message.author.id)
+        await member.timeout(step.durationMinutes * 60 * 1000, `${strikes} strikes por mencionar`)
+        logger.info('Timed out a member', { guildId: message.guildId, user: message.author.tag, minutes: step.durationMinutes, strikes });
     }
 
-    if (!himieWasWarned) {
-        try {
-            console.log(`vanity url is: ${guildLink}`)
-            const modChannel = await discordClient.channels.fetch(MOD_CHANNEL) as TextChannel
-
-            await modChannel.send({
-                content: "¡El link del gremio dejó de funcionar! \n ¡¡Arréglalo <@143419914147987456> berto!!"
-            });
-            himieWasWarned = true
-        } catch (error) {
-            warnError(error);
+    if (step?.action === 'flag') {
+        const { modChannelId } = await guildSettingsRepository.getSettings(message.guildId)
+        if (!modChannelId) {
+            logger.warn('A member reached the flag step but the guild has no mod channel', { guildId: message.guildId, user: message.author.tag, strikes });
+            return;
         }
+        const modChannel = await discordClient.channels.fetch(modChannelId) as TextChannel
 
+        await modChannel.send({
+            content: `<@${message.author.id}> lleva ${strikes} strikes por mencionar. Revisen con \`/infractions user\` y decidan qué hacer.`,
+            allowedMentions: { parse: [] }
+        });
     }
 }
 
+async function checkIfForbiddenMention(message: Message<boolean>) {
+    if (!message.inGuild()) return;
+
+    try {
+        const rules = await mentionRuleRepository.getRules(message.guildId);
+        const violation = await findMentionViolation(message, rules);
+
+        if (violation) {
+            handleMaiMention(message, violation);
+        }
+    } catch (error) {
+        errorReporter.report(error, { guildId: message.guildId });
+    }
+}
+
+async function replyToCustomCommand(message: Message<true>) {
+    const [first, ...params] = message.content.trim().split(/\s+/)
+    if (!first.startsWith('!')) return;
+
+    const name = parseCommandName(first)
+    const command = name ? await findDiscordCommand(name, message.guildId) : null
+    if (!command) return;
+
+    const user = message.member?.displayName ?? message.author.displayName
+    metrics.commandsRun.inc({ platform: 'discord', command: 'custom-command' });
+    message.reply({
+        content: renderCommandResponse(command.response, getCommandVariables(user, params, message.guild.name)),
+        allowedMentions: { parse: [] }
+    });
+}
+
+// The guild's own command wins over a Twitch channel command with the same name
+export async function findDiscordCommand(name: string, guildId: string): Promise<CustomCommand | null> {
+    const command = await customCommandRepository.getCommand(name, guildId)
+    if (command) return command;
+
+    const channelCommand = await customCommandRepository.getCommand(name, null)
+    return channelCommand && answersOn(channelCommand, 'discord') ? channelCommand : null;
+}
+
+export function getCommandVariables(user: string, params: string[], channel: string): CommandVariables {
+    const stream = bot.getActiveStream()
+    const uptime = stream ? formatRelativeTime(Date.now() - new Date(stream.startTime).getTime()) : 'sin stream'
+
+    return {
+        user,
+        touser: params[0]?.replace(/^@/, '') || user,
+        uptime,
+        tagcount: `${stream?.tags.length ?? 0}`,
+        channel
+    };
+}
+
 // Event listener for incoming messages
 discordClient.on('messageCreate', async (message: Message) => {
-    if (message.author.bot) return;
+    if (message.author.bot || !message.inGuild()) return;
 
     const channel = <GuildChannel>message.channel
     const memberName = message.member?.nickname || message.member?.displayName
 
     checkIfForbiddenMention(message);
-    replyToDiscordCommand(message);
-    checkIfGuildCustomLinkIsInactive();
+    replyToCustomCommand(message).catch(error => errorReporter.report(error, { guildId: message.guildId }));
 
-    console.log(`#${channel.name} <${memberName}>: ${message}`)
+    logger.debug(`#${channel.name} <${memberName}>: ${message}`, { guildId: message.guildId })
 
 });
 
-async function warnError(error: any) {
-    console.error(error);
+// What /healthz, /readyz and /metrics report, read without calling Twitch or Discord
+function listComponents(): Record<string, HealthResult> {
+    return {
+        discord: discordClient.isReady() ? { ok: true, detail: 'Conectado' } : { ok: false, detail: 'Desconectado' },
+        twitchChat: bot.checkChat(),
+        eventsub: bot.checkEventSub(),
+        database: checkDatabase()
+    };
+}
+
+function checkDatabase(): HealthResult {
     try {
-        const testChannel = await discordClient.channels.fetch('1313915669435256935') as TextChannel;
-
-        const embed = new EmbedBuilder()
-            .setTitle("An error has occurred")
-            .setDescription(`${error}`)
-            .setColor(Colors.Red)
-        await testChannel.send({
-            embeds: [embed],
-        });
+        database.prepare('SELECT 1').get();
+        return { ok: true, detail: 'Disponible' };
     } catch (error) {
-        console.error(error);
+        return { ok: false, detail: `${error}` };
+    }
+}
+
+async function listHealthChecks(): Promise<HealthCheck[]> {
+    const checks: HealthCheck[] = [
+        { name: 'twitch-token', guildId: null, run: () => bot.checkToken() },
+        { name: 'eventsub', guildId: null, run: async () => bot.checkEventSub() }
+    ];
+
+    for (const guild of discordClient.guilds.cache.values()) {
+        const settings = await guildSettingsRepository.getSettings(guild.id);
+        checks.push(...getGuildHealthChecks(guild, settings));
+    }
+
+    return checks;
+}
+
+// Guild checks are reported to the mod channel of the guild, checks of the whole bot to every error channel
+async function sendHealthNotice(status: HealthStatus, recovered: boolean) {
+    const settings = status.guildId
+        ? [await guildSettingsRepository.getSettings(status.guildId)]
+        : await guildSettingsRepository.getAllSettings();
+
+    const name = HEALTH_CHECK_NAMES[status.name] ?? status.name;
+    const embed = new EmbedBuilder()
+        .setTitle(recovered ? `Se recuperó: ${name}` : `Falla: ${name}`)
+        .setDescription(status.detail)
+        .setColor(recovered ? Colors.Green : Colors.Red)
+        .setTimestamp(status.since)
+
+    for (const guildSettings of settings) {
+        const channelId = status.guildId ? guildSettings.modChannelId : guildSettings.errorChannelId;
+        if (!channelId) continue;
+
+        const channel = await discordClient.channels.fetch(channelId) as TextChannel;
+        await channel.send({
+            content: !recovered && guildSettings.ownerId ? `¡¡Arréglalo <@${guildSettings.ownerId}>!!` : undefined,
+            embeds: [embed]
+        });
     }
 }
 
 
 discordClient.login(config.DISCORD_TOKEN)
-const bot = new TwitchBot();
-bot.start();
+const bot = new TwitchBot(simulation?.twitch ?? new TokenFileConnector({
+    tokenPath: config.TOKEN_PATH ?? './tokens.json',
+    legacyTokenPath: path.join(__dirname, 'tokens.json'),
+    clientId: config.TWITCH_CLIENT_ID,
+    clientSecret: config.TWITCH_CLIENT_SECRET,
+    encryptionKey: config.TOKEN_ENCRYPTION_KEY
+}));
+export const vipManager = new VipManager(() => bot.getApiClient(), vipRepository, config.TWITCH_BROADCASTER,
+    record => auditLog.record(record), error => errorReporter.report(error));
+export const healthMonitor = new HealthMonitor(listHealthChecks, sendHealthNotice);
+
+// The process supervisor sends SIGTERM. Commands stop coming in and the tag writes finish before the database is closed.
+async function shutdown(signal: string) {
+    logger.info('Shutting down', { signal });
+    setTimeout(() => process.exit(1), SHUTDOWN_FLUSH_MS + 5000).unref();
+
+    try {
+        healthMonitor.stop();
+        await bot.stop();
+        await discordClient.destroy();
+        database.close();
+    } catch (error) {
+        logger.error('Could not shut down cleanly', { error });
+        process.exit(1);
+    }
+    process.exit(0);
+}
+
+process.once('SIGTERM', () => shutdown('SIGTERM'));
+process.once('SIGINT', () => shutdown('SIGINT'));
+// Resolves once Twitch is set up, the simulation waits for it before replaying its transcript
+export const twitchStarted = importJsonTags(streamRepository, process.cwd())
+    .catch(error => errorReporter.report(error))
+    .then(() => simulation ? bot.startOffline() : bot.start());
+
+// Built-in commands and tag aliases answer before custom commands, so those names can't be used.
+// Checked against the stored aliases, so it works while Twitch is not started.
+export async function isReservedCommandName(name: string): Promise<boolean> {
+    const aliases = await tagAliasRepository.getAliases(config.TWITCH_BROADCASTER)
+    return BUILTIN_TWITCH_COMMANDS.includes(name) || aliases.some(({ alias }) => alias === name);
+}
 
 export async function getTwitchVodFromId(id: string): Promise<HelixVideo | null> {
     try {
         const vodVideo = await bot.getVodVideoFromId(id)
-        console.log(`Vod retrieved: ${vodVideo?.id}`)
+        logger.debug('Vod retrieved', { vodId: vodVideo?.id })
         if (vodVideo) {
-            console.log("returning video")
+            if (vodVideo.streamId) {
+                await streamRepository.linkVod(vodVideo.id, vodVideo.streamId)
+            }
             return vodVideo
         }
     } catch (error) {
-        warnError(error)
+        errorReporter.report(error, { vodId: id })
     }
-    console.log(`failed to retrieve vod`)
+    logger.warn('Could not retrieve the vod', { vodId: id })
     return null
 }
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { EscalationAction, EscalationSettings, EscalationStep } from "./storage/infraction-repository";
+
+export const ESCALATION_ACTIONS: EscalationAction[] = ['warn', 'timeout', 'flag'];
+
+// Discord does not allow longer timeouts
+export const MAX_TIMEOUT_MINUTES = 28 * 24 * 60;
+
+// The step for this many strikes: the one with the most strikes that were reached
+export function getEscalationStep(steps: EscalationStep[], strikes: number): EscalationStep | null {
+    let current: EscalationStep | null = null;
+    for (const step of steps) {
+        if (step.strikes <= strikes && (!current || step.strikes > current.strikes)) {
+            current = step;
+        }
+    }
+    return current;
+}
+
+// Strikes created before this date no longer count
+export function getDecayCutoff(settings: EscalationSettings, now: Date = new Date()): Date {
+    return new Date(now.getTime() - settings.decayDays * 24 * 60 * 60 * 1000);
+}
+
+export function describeStep(step: EscalationStep | null): string {
+    switch (step?.action) {
+        case 'timeout':
+            return `aislamiento de ${formatMinutes(step.durationMinutes ?? 0)}`;
+        case 'flag':
+            return 'aviso a los mods';
+        case 'warn':
+            return 'advertencia';
+        default:
+            return 'nada';
+    }
+}
+
+function formatMinutes(minutes: number): string {
+    if (minutes % (24 * 60) === 0) {
+        const days = minutes / (24 * 60);
+        return days === 1 ? '1 día' : `${days} días`;
+    }
+    if (minutes % 60 === 0) {
+        const hours = minutes / 60;
+        return hours === 1 ? '1 hora' : `${hours} horas`;
+    }
+    return minutes === 1 ? '1 minuto' : `${minutes} minutos`;
+}
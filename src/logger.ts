@@ -0,0 +1,109 @@
+import fs from 'fs';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+// Context added to a line, ie. guildId, command or streamId. An `error` field is written with its stack.
+export type LogFields = Record<string, unknown>;
+
+export interface LoggerOptions {
+    level: LogLevel;
+    // JSON lines are appended here, nothing is written to a file when null
+    filePath: string | null;
+}
+
+export function parseLogLevel(text: string | undefined): LogLevel {
+    const level = text?.trim().toLowerCase() as LogLevel;
+    return LOG_LEVELS.includes(level) ? level : 'info';
+}
+
+export function serializeError(error: unknown): unknown {
+    if (error instanceof Error) {
+        return { name: error.name, message: error.message, stack: error.stack };
+    }
+    return error;
+}
+
+// Where the lines go, shared by a logger and its children so configuring it reaches all of them
+class LogSink {
+    private level: LogLevel = 'info';
+    private file: fs.WriteStream | null = null;
+
+    configure({ level, filePath }: LoggerOptions) {
+        this.level = level;
+        this.file?.end();
+        this.file = filePath ? fs.createWriteStream(filePath, { flags: 'a' }) : null;
+
+        // A log file that can't be written must not take the bot down
+        this.file?.on('error', error => {
+            console.error(`Could not write the log file ${filePath}:`, error);
+            this.file = null;
+        });
+    }
+
+    write(level: LogLevel, message: string, fields: LogFields) {
+        if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.level)) return;
+
+        const time = new Date().toISOString();
+        const context = Object.keys(fields).length > 0 ? fields : null;
+        const print = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+
+        if (context && fields.error instanceof Error) {
+            const { error, ...rest } = fields;
+            print(`${time} ${level.toUpperCase()} ${message}`, ...(Object.keys(rest).length > 0 ? [rest] : []), error);
+        } else {
+            print(`${time} ${level.toUpperCase()} ${message}`, ...(context ? [context] : []));
+        }
+
+        if (this.file) {
+            const entry = { time, level, message, ...fields, ...('error' in fields ? { error: serializeError(fields.error) } : {}) };
+            this.file.write(`${safeStringify(entry)}\n`);
+        }
+    }
+}
+
+export class Logger {
+    constructor(private sink: LogSink = new LogSink(), private fields: LogFields = {}) { }
+
+    configure(options: LoggerOptions) {
+        this.sink.configure(options);
+    }
+
+    // A logger that adds these fields to every line
+    child(fields: LogFields): Logger {
+        return new Logger(this.sink, { ...this.fields, ...fields });
+    }
+
+    debug(message: string, fields: LogFields = {}) {
+        this.sink.write('debug', message, { ...this.fields, ...fields });
+    }
+
+    info(message: string, fields: LogFields = {}) {
+        this.sink.write('info', message, { ...this.fields, ...fields });
+    }
+
+    warn(message: string, fields: LogFields = {}) {
+        this.sink.write('warn', message, { ...this.fields, ...fields });
+    }
+
+    error(message: string, fields: LogFields = {}) {
+        this.sink.write('error', message, { ...this.fields, ...fields });
+    }
+}
+
+// Discord and Twitch objects may have circular references and bigints
+function safeStringify(value: unknown): string {
+    const seen = new WeakSet();
+    return JSON.stringify(value, (_key, field) => {
+        if (typeof field === 'bigint') return field.toString();
+        if (typeof field === 'object' && field !== null) {
+            if (seen.has(field)) return '[Circular]';
+            seen.add(field);
+        }
+        return field;
+    });
+}
+
+// Logs to the console until index.ts configures it from the environment
+export const logger = new Logger();
@@ -0,0 +1,100 @@
+import { GuildMember, Message } from "discord.js";
+import { config } from "./config";
+import { MentionAction, MentionRule } from "./storage/mention-rule-repository";
+import { logger } from "./logger";
+
+export interface MentionViolation {
+    rule: MentionRule;
+    // The mention comes from replying to a protected member instead of an @
+    isReply: boolean;
+}
+
+export const MENTION_ACTIONS: MentionAction[] = ['delete', 'warn', 'both'];
+
+const DEFAULT_WARNING_TEXT = `¡Las reglas dicen que no puedes hacerme @!`;
+const DEFAULT_REPLY_WARNING_TEXT = `Las reglas dicen que no puedes taggearme a mi o a mis amigas vtubers. ¡Quita el tag antes de responder y no me hagas @!`;
+const DEFAULT_WARNING_IMAGE = 'https://i.imgur.com/lhJDl0w.png';
+
+export function createMentionRule(guildId: string, name: string, action: MentionAction = 'both'): MentionRule {
+    return {
+        guildId,
+        name,
+        protectedRoles: [],
+        protectedUsers: [],
+        exemptRoles: [],
+        allowedChannels: [],
+        action,
+        warningText: DEFAULT_WARNING_TEXT,
+        replyWarningText: DEFAULT_REPLY_WARNING_TEXT,
+        warningImage: DEFAULT_WARNING_IMAGE
+    };
+}
+
+// Embeds only take http and https links as images
+export function isImageUrl(text: string | null): text is string {
+    if (!text) return false;
+    try {
+        const { protocol } = new URL(text);
+        return protocol === 'http:' || protocol === 'https:';
+    } catch (error) {
+        return false;
+    }
+}
+
+// The rule described by TARGET_USER_ROLES, WHITELISTED_CHANNELS and ALLOWED_ROLE_IDS, used to seed guilds without rules
+export function mentionRuleFromEnvironment(guildId: string): MentionRule | null {
+    const protectedRoles = splitIds(config.TARGET_USER_ROLES);
+    if (protectedRoles.length === 0) {
+        return null;
+    }
+
+    return {
+        ...createMentionRule(guildId, 'default'),
+        protectedRoles,
+        exemptRoles: splitIds(config.ALLOWED_ROLE_IDS),
+        allowedChannels: splitIds(config.WHITELISTED_CHANNELS)
+    };
+}
+
+// Returns the first rule the message breaks, if any
+export async function findMentionViolation(message: Message, rules: MentionRule[]): Promise<MentionViolation | null> {
+    for (const rule of rules) {
+        if (rule.allowedChannels.includes(message.channelId)) continue;
+
+        const isExempt = message.member?.roles.cache.some(role => rule.exemptRoles.includes(role.id)) || false;
+        if (isExempt) continue;
+
+        const isMentioningProtected =
+            message.mentions.members?.some(member => isProtected(member, rule)) ||
+            message.mentions.users.some(user => rule.protectedUsers.includes(user.id));
+        if (!isMentioningProtected) continue;
+
+        let isReply = false;
+        if (message.reference && message.reference.messageId) {
+            try {
+                const repliedMessage = await message.fetchReference();
+                isReply = isProtected(repliedMessage.member, rule) || rule.protectedUsers.includes(repliedMessage.author.id);
+            } catch (error) {
+                // Still a violation, it just gets the regular warning
+                logger.warn('Could not fetch the replied message', { guildId: message.guildId, error });
+            }
+        }
+
+        return { rule, isReply };
+    }
+
+    return null;
+}
+
+function isProtected(member: GuildMember | null | undefined, rule: MentionRule): boolean {
+    if (!member) return false;
+    return rule.protectedUsers.includes(member.id) ||
+        member.roles.cache.some(role => rule.protectedRoles.includes(role.id));
+}
+
+function splitIds(value: string | undefined): string[] {
+    return (value || '')
+        .split(',')
+        .map(id => id.trim())
+        .filter(id => id); // Remove any empty strings
+}
@@ -0,0 +1,69 @@
+// Counters in the Prometheus text format, served at /metrics
+export type MetricLabels = Record<string, string>;
+
+export class Counter {
+    private values = new Map<string, { labels: MetricLabels, value: number }>();
+
+    // The label sets exported at 0 from the start, a counter with labels has no series without them
+    constructor(readonly name: string, readonly help: string, labelSets: MetricLabels[] = [{}]) {
+        for (const labels of labelSets) this.init(labels);
+    }
+
+    // Exports the series at 0 until it is first increased
+    init(labels: MetricLabels) {
+        const key = labelKey(labels);
+        if (!this.values.has(key)) this.values.set(key, { labels, value: 0 });
+    }
+
+    inc(labels: MetricLabels = {}, amount: number = 1) {
+        this.init(labels);
+        this.values.get(labelKey(labels))!.value += amount;
+    }
+
+    render(): string {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+
+        for (const { labels, value } of this.values.values()) {
+            lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+        }
+        return lines.join('\n');
+    }
+}
+
+export class Metrics {
+    readonly tagsCreated = new Counter('botshi_tags_created_total', 'Tags created from the Twitch chat, merged tags are not counted');
+    readonly commandsRun = new Counter('botshi_commands_total', 'Commands run, by platform and command', []);
+    readonly mentionDeletions = new Counter('botshi_mention_deletions_total', 'Messages deleted by the mention guard');
+    readonly errorsReported = new Counter('botshi_errors_reported_total', 'Errors given to the error reporter, posted to Discord or not');
+    readonly tokenRefreshes = new Counter('botshi_token_refreshes_total', 'Twitch tokens refreshed');
+
+    // Gauges that are read when the metrics are scraped, ie. whether each component is connected
+    render(gauges: { name: string, help: string, values: { labels: MetricLabels, value: number }[] }[] = []): string {
+        const counters = [this.tagsCreated, this.commandsRun, this.mentionDeletions, this.errorsReported, this.tokenRefreshes]
+            .map(counter => counter.render());
+
+        const rendered = gauges.map(({ name, help, values }) => [
+            `# HELP ${name} ${help}`,
+            `# TYPE ${name} gauge`,
+            ...values.map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`)
+        ].join('\n'));
+
+        return [...counters, ...rendered].join('\n') + '\n';
+    }
+}
+
+function labelKey(labels: MetricLabels): string {
+    return JSON.stringify(Object.entries(labels).sort());
+}
+
+function formatLabels(labels: MetricLabels): string {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) return '';
+    return `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}`;
+}
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+export const metrics = new Metrics();
@@ -0,0 +1,50 @@
+import { BotCommand, BotCommandContext } from '@twurple/easy-bot';
+import { GuardedCommand } from './guarded-command';
+
+// Keeps track of work that must finish before the process exits, ie. commands that write tags
+export class PendingWork {
+    private running = new Set<Promise<unknown>>();
+
+    get size(): number {
+        return this.running.size;
+    }
+
+    async run<T>(work: () => Promise<T>): Promise<T> {
+        const promise = work();
+        this.running.add(promise);
+        try {
+            return await promise;
+        } finally {
+            this.running.delete(promise);
+        }
+    }
+
+    // Waits for the running work, returns false when some of it didn't finish in time
+    async flush(timeoutMs: number): Promise<boolean> {
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<false>(resolve => timer = setTimeout(() => resolve(false), timeoutMs));
+
+        try {
+            return await Promise.race([
+                Promise.allSettled([...this.running]).then(() => true),
+                timeout
+            ]);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    guard(command: BotCommand): BotCommand {
+        return new TrackedCommand(command, this);
+    }
+}
+
+class TrackedCommand extends GuardedCommand {
+    constructor(command: BotCommand, private work: PendingWork) {
+        super(command, () => true);
+    }
+
+    async execute(params: string[], context: BotCommandContext): Promise<void> {
+        await this.work.run(() => super.execute(params, context));
+    }
+}
@@ -0,0 +1,47 @@
+import { BotCommand, BotCommandContext } from '@twurple/easy-bot';
+import { GuardedCommand } from './guarded-command';
+import { logger } from './logger';
+
+// Twitch allows 20 messages every 30 seconds to accounts that are not moderators of the channel
+export const TWITCH_MESSAGE_LIMIT = 20;
+export const TWITCH_MESSAGE_WINDOW_MS = 30 * 1000;
+
+// The chat client queues messages over the limit, which can answer a command minutes late.
+// Replies over the limit are dropped instead.
+export class ReplyLimiter {
+    private sentAt: number[] = [];
+
+    constructor(private limit: number = TWITCH_MESSAGE_LIMIT, private windowMs: number = TWITCH_MESSAGE_WINDOW_MS) { }
+
+    tryAcquire(): boolean {
+        const now = Date.now();
+        this.sentAt = this.sentAt.filter(time => now - time < this.windowMs);
+
+        if (this.sentAt.length >= this.limit) {
+            return false;
+        }
+
+        this.sentAt.push(now);
+        return true;
+    }
+
+    guard(command: BotCommand): BotCommand {
+        return new GuardedCommand(command, (_params, context) => {
+            this.limitContext(context, command.name);
+            return true;
+        });
+    }
+
+    private limitContext(context: BotCommandContext, commandName: string) {
+        const { reply, say } = context;
+
+        context.reply = async text => {
+            if (this.tryAcquire()) return reply(text);
+            logger.warn('Dropped a reply over the chat rate limit', { command: commandName, text });
+        };
+        context.say = async text => {
+            if (this.tryAcquire()) return say(text);
+            logger.warn('Dropped a message over the chat rate limit', { command: commandName, text });
+        };
+    }
+}
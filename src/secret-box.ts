@@ -0,0 +1,48 @@
+import crypto from 'crypto';
+
+// What is written to disk instead of the text, everything in base64
+export interface SealedText {
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+
+const KEY_BYTES = 32;
+
+// Encrypts text with AES-256-GCM. The key is 32 random bytes written as 64 hex characters, openssl rand -hex 32 makes one.
+export class SecretBox {
+    private key: Buffer;
+
+    // Throws when the key has the wrong length
+    constructor(hexKey: string) {
+        if (!new RegExp(`^[0-9a-fA-F]{${KEY_BYTES * 2}}$`).test(hexKey)) {
+            throw new Error(`The key must be ${KEY_BYTES * 2} hex characters`);
+        }
+        this.key = Buffer.from(hexKey, 'hex');
+    }
+
+    seal(text: string): SealedText {
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv(ALGORITHM, this.key, iv);
+        const data = Buffer.concat([cipher.update(text, 'utf-8'), cipher.final()]);
+
+        return {
+            iv: iv.toString('base64'),
+            tag: cipher.getAuthTag().toString('base64'),
+            data: data.toString('base64')
+        };
+    }
+
+    // Throws when the key is wrong or the text was changed
+    open({ iv, tag, data }: SealedText): string {
+        const decipher = crypto.createDecipheriv(ALGORITHM, this.key, Buffer.from(iv, 'base64'));
+        decipher.setAuthTag(Buffer.from(tag, 'base64'));
+        return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf-8');
+    }
+}
+
+export function isSealedText(value: unknown): value is SealedText {
+    return typeof value === 'object' && value !== null && 'iv' in value && 'tag' in value && 'data' in value;
+}
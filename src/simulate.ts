@@ -0,0 +1,48 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { describeStep, replayTranscript, TranscriptStep } from './simulation/transcript';
+
+// Runs the bot against the fakes in src/simulation and replays a transcript, ie.
+// npm run simulate -- src/simulation/transcripts/stream.json
+// Exits with 1 when a step didn't get the expected reply.
+
+// Set before index.ts reads the configuration. The database is always in memory so a real one is never touched.
+process.env.SIMULATION = 'true';
+process.env.DATABASE_PATH = ':memory:';
+process.env.TWITCH_GLOBAL_DELAY = '0';
+process.env.LOG_PATH = '';
+process.env.LOG_LEVEL ??= 'warn';
+process.env.DISCORD_TOKEN ??= 'simulation';
+process.env.DISCORD_CLIENT_ID ??= 'simulation';
+process.env.TWITCH_CLIENT_ID ??= 'simulation';
+process.env.TWITCH_CLIENT_SECRET ??= 'simulation';
+process.env.TWITCH_BROADCASTER ??= 'streamer';
+
+const DEFAULT_TRANSCRIPT = path.join(__dirname, 'simulation', 'transcripts', 'stream.json');
+
+async function main() {
+    const transcriptPath = process.argv[2] ?? DEFAULT_TRANSCRIPT;
+    const steps: TranscriptStep[] = JSON.parse(await fs.readFile(transcriptPath, 'utf-8'));
+
+    const { simulation, streamRepository, twitchStarted } = await import('.');
+    await twitchStarted;
+
+    const results = await replayTranscript(simulation!, streamRepository, steps);
+
+    for (const [index, { step, output, failure }] of results.entries()) {
+        console.log(`${failure ? 'FAIL' : 'ok  '} ${index + 1}. ${describeStep(step)}`);
+        for (const line of output) {
+            console.log(line.replace(/^/gm, '       '));
+        }
+        if (failure) console.log(`       ${failure}`);
+    }
+
+    const failed = results.filter(result => result.failure).length;
+    console.log(failed ? `${failed} of ${results.length} steps failed` : `All ${results.length} steps passed`);
+    process.exit(failed ? 1 : 0);
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,195 @@
+import { EventEmitter } from 'events';
+import { APIEmbed, AttachmentBuilder, Client, Collection, EmbedBuilder } from 'discord.js';
+
+export type CommandOption = string | number | boolean;
+
+export interface SimulatedCommand {
+    subcommand?: string;
+    options?: Record<string, CommandOption>;
+    guildId?: string;
+    userName?: string;
+}
+
+// What the bot answered, the embeds and files are flattened to text to look for the expected replies
+export interface DiscordReply {
+    content: string;
+    embeds: string[];
+    files: { name: string, text: string }[];
+    ephemeral: boolean;
+}
+
+export interface ChannelMessage {
+    channelId: string;
+    reply: DiscordReply;
+}
+
+export const SIMULATED_GUILD_ID = 'sim-guild';
+
+// Custom text commands answer a message a moment after it is received
+const MESSAGE_SETTLE_MS = 50;
+
+// Stands in for the Discord client. Slash commands and messages are emitted to the same handlers the real events reach.
+// The simulated bot is in no guild, so the commands are never deployed and the guild setup is skipped.
+export class FakeDiscord {
+    private emitter = new FakeClientEmitter();
+    // Everything sent to a channel, ie. announcements, the audit log and error reports
+    readonly channelMessages: ChannelMessage[] = [];
+    readonly client: Client;
+    private ready = false;
+
+    constructor() {
+        const client = Object.assign(this.emitter, {
+            user: { id: 'sim-bot', username: 'botshi', tag: 'botshi#0000' },
+            isReady: () => this.ready,
+            login: async () => {
+                this.ready = true;
+                await this.emitter.emitAsync('ready', client);
+                return 'sim-token';
+            },
+            destroy: async () => {
+                this.ready = false;
+            },
+            channels: {
+                fetch: async (channelId: string) => ({
+                    id: channelId,
+                    send: async (options: unknown) => {
+                        this.channelMessages.push({ channelId, reply: toReply(options) });
+                    }
+                })
+            },
+            guilds: {
+                fetch: async () => new Map(),
+                cache: new Map()
+            }
+        });
+        this.client = client as unknown as Client;
+    }
+
+    // Returns every reply, including the edits of a deferred reply
+    async runCommand(commandName: string, { subcommand, options = {}, guildId = SIMULATED_GUILD_ID, userName = 'moderador' }: SimulatedCommand = {}): Promise<DiscordReply[]> {
+        const replies: DiscordReply[] = [];
+        const get = <T extends CommandOption>(name: string, required?: boolean): T | null => {
+            if (name in options) return options[name] as T;
+            if (required) throw new Error(`The simulated command is missing the option ${name}`);
+            return null;
+        };
+
+        const interaction = {
+            commandName,
+            guildId,
+            user: { id: `user-${userName}`, username: userName, displayName: userName },
+            memberPermissions: { has: () => true },
+            deferred: false,
+            replied: false,
+            inGuild: () => guildId !== null,
+            isButton: () => false,
+            isModalSubmit: () => false,
+            isChatInputCommand: () => true,
+            options: {
+                getSubcommand: () => subcommand ?? null,
+                getString: get<string>,
+                getInteger: get<number>,
+                getNumber: get<number>,
+                getBoolean: get<boolean>,
+                // Only the id is simulated, the commands that use these store the id
+                getUser: (name: string, required?: boolean) => mapOption(get<string>(name, required), id => ({ id, username: id })),
+                getChannel: (name: string, required?: boolean) => mapOption(get<string>(name, required), id => ({ id })),
+                getRole: (name: string, required?: boolean) => mapOption(get<string>(name, required), id => ({ id }))
+            },
+            reply: async (options: unknown) => {
+                interaction.replied = true;
+                replies.push(toReply(options));
+            },
+            deferReply: async () => {
+                interaction.deferred = true;
+            },
+            editReply: async (options: unknown) => {
+                replies.push(toReply(options));
+            },
+            followUp: async (options: unknown) => {
+                replies.push(toReply(options));
+            }
+        };
+
+        await this.emitter.emitAsync('interactionCreate', interaction);
+        return replies;
+    }
+
+    // A message in a text channel of the simulated guild
+    async sendMessage(content: string, userName: string = 'usuario', guildId: string = SIMULATED_GUILD_ID): Promise<DiscordReply[]> {
+        const replies: DiscordReply[] = [];
+        const author = {
+            id: `user-${userName}`,
+            bot: false,
+            username: userName,
+            displayName: userName,
+            tag: userName,
+            displayAvatarURL: () => null
+        };
+
+        const message = {
+            content,
+            author,
+            guildId,
+            member: { displayName: userName, nickname: null, roles: { cache: new Collection() } },
+            guild: { id: guildId, name: 'Servidor de prueba' },
+            channel: { id: 'sim-channel', name: 'general' },
+            channelId: 'sim-channel',
+            // Mentions are not simulated, mention rules never match
+            mentions: { users: new Collection(), members: new Collection() },
+            reference: null,
+            inGuild: () => true,
+            reply: async (options: unknown) => {
+                replies.push(toReply(options));
+            },
+            toString: () => content
+        };
+
+        await this.emitter.emitAsync('messageCreate', message);
+        await new Promise(resolve => setTimeout(resolve, MESSAGE_SETTLE_MS));
+        return replies;
+    }
+}
+
+// Waits for async listeners, the real client doesn't, but the simulation needs the replies before it checks them
+class FakeClientEmitter extends EventEmitter {
+    async emitAsync(event: string, ...args: unknown[]) {
+        await Promise.all(this.rawListeners(event).map(listener => listener(...args)));
+    }
+}
+
+function mapOption<T>(id: string | null, map: (id: string) => T): T | null {
+    return id === null ? null : map(id);
+}
+
+function toReply(options: unknown): DiscordReply {
+    if (typeof options === 'string') {
+        return { content: options, embeds: [], files: [], ephemeral: false };
+    }
+
+    const { content, embeds, files, ephemeral } = options as {
+        content?: string,
+        embeds?: (EmbedBuilder | APIEmbed)[],
+        files?: AttachmentBuilder[],
+        ephemeral?: boolean
+    };
+
+    return {
+        content: content ?? '',
+        embeds: (embeds ?? []).map(embed => describeEmbed(embed instanceof EmbedBuilder ? embed.toJSON() : embed)),
+        files: (files ?? []).map(file => ({
+            name: file.name ?? 'file',
+            text: Buffer.isBuffer(file.attachment) ? file.attachment.toString('utf-8') : ''
+        })),
+        ephemeral: ephemeral ?? false
+    };
+}
+
+function describeEmbed({ title, description, fields, footer }: APIEmbed): string {
+    return [
+        title,
+        description,
+        ...(fields ?? []).map(field => `${field.name}: ${field.value}`),
+        footer?.text
+    ].filter(Boolean).join('\n');
+}
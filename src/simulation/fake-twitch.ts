@@ -0,0 +1,237 @@
+import { ApiClient, HelixVideo } from '@twurple/api';
+import { Bot, BotCommand, BotCommandContext } from '@twurple/easy-bot';
+import { EventSubWsListener } from '@twurple/eventsub-ws';
+import { IDENTITY_SCOPES, LinkedIdentity, TWITCH_IDENTITIES, TwitchConnection, TwitchConnector, TwitchIdentity } from '../twitch-connector';
+import { PermissionLevel } from '../storage/permission-repository';
+
+export interface SimulatedStream {
+    id: string;
+    startDate: Date;
+    title: string;
+    gameName: string;
+}
+
+export interface Chatter {
+    userName: string;
+    level: PermissionLevel;
+}
+
+type StreamHandler = (event: unknown) => void | Promise<void>;
+
+// The bot catches up with the stream a moment after EventSub connects again
+const RECONNECT_SETTLE_MS = 50;
+
+// Stands in for Twitch: the API, EventSub and the chat answer from memory.
+// The transcript drives it with goOnline, goOffline and chat.
+export class FakeTwitch implements TwitchConnector {
+    private live: SimulatedStream | null = null;
+    private videos = new Map<string, HelixVideo>();
+    private vips = new Set<string>();
+    private onlineHandlers: StreamHandler[] = [];
+    private offlineHandlers: StreamHandler[] = [];
+    private connectHandlers: (() => void)[] = [];
+    private disconnectHandlers: ((userId: string, error?: Error) => void)[] = [];
+    // While EventSub is disconnected the stream events are missed, like on Twitch
+    private eventSubConnected = true;
+    private commands: BotCommand[] = [];
+    private messageHandlers: (() => void)[] = [];
+    private nextId = 1000;
+    // Everything the bot wrote in chat without replying to a command, ie. timed messages
+    readonly said: string[] = [];
+
+    constructor(private channel: string) { }
+
+    // Every connection gets a new listener, the handlers of the previous one are dropped
+    async connect(): Promise<TwitchConnection> {
+        this.onlineHandlers = [];
+        this.offlineHandlers = [];
+        this.connectHandlers = [];
+        this.disconnectHandlers = [];
+        this.commands = [];
+        this.messageHandlers = [];
+
+        return {
+            apiClient: this.createApiClient(),
+            eventListener: this.createEventListener(),
+            createBot: (_channel, commands) => this.createBot(commands),
+            checkToken: async () => ({ ok: true, detail: 'Simulación' })
+        };
+    }
+
+    async saveTokens() { }
+
+    // The broadcaster's own account is linked as the bot and the broadcaster, with one token for both
+    async getIdentities(): Promise<LinkedIdentity[]> {
+        return TWITCH_IDENTITIES.map(identity => this.linkedIdentity(identity));
+    }
+
+    private linkedIdentity(identity: TwitchIdentity): LinkedIdentity {
+        const scopes = TWITCH_IDENTITIES.flatMap(shared => IDENTITY_SCOPES[shared]);
+        return { identity, userId: userId(this.channel), userName: this.channel, scopes };
+    }
+
+    async goOnline(stream: Partial<SimulatedStream> = {}): Promise<SimulatedStream> {
+        this.live = {
+            id: stream.id ?? `${this.nextId++}`,
+            startDate: stream.startDate ?? new Date(),
+            title: stream.title ?? 'Stream de prueba',
+            gameName: stream.gameName ?? 'Just Chatting'
+        };
+
+        const event = {
+            id: this.live.id,
+            broadcasterId: userId(this.channel),
+            broadcasterName: this.channel,
+            broadcasterDisplayName: this.channel,
+            startDate: this.live.startDate
+        };
+        if (this.eventSubConnected) {
+            for (const handler of this.onlineHandlers) await handler(event);
+        }
+        return this.live;
+    }
+
+    // The vod of the stream is available from then on
+    async goOffline(vodId: string = `${this.nextId++}`): Promise<HelixVideo | null> {
+        const stream = this.live;
+        this.live = null;
+
+        const event = { broadcasterId: userId(this.channel), broadcasterName: this.channel };
+        if (this.eventSubConnected) {
+            for (const handler of this.offlineHandlers) await handler(event);
+        }
+
+        if (!stream) return null;
+
+        const vod = {
+            id: vodId,
+            type: 'archive',
+            streamId: stream.id,
+            title: stream.title,
+            creationDate: stream.startDate,
+            durationInSeconds: Math.round((Date.now() - stream.startDate.getTime()) / 1000),
+            url: `https://www.twitch.tv/videos/${vodId}`
+        } as HelixVideo;
+        this.videos.set(vodId, vod);
+        return vod;
+    }
+
+    async setEventSubConnected(connected: boolean) {
+        this.eventSubConnected = connected;
+        if (connected) {
+            this.connectHandlers.forEach(handler => handler());
+        } else {
+            this.disconnectHandlers.forEach(handler => handler(userId(this.channel), new Error('Simulated disconnection')));
+        }
+        await new Promise(resolve => setTimeout(resolve, RECONNECT_SETTLE_MS));
+    }
+
+    // Runs the command the line matches, like easy-bot does, and returns the replies
+    async chat({ userName, level }: Chatter, text: string): Promise<string[]> {
+        const replies: string[] = [];
+        const line = text.trim().replace(/  +/g, ' ');
+
+        for (const command of this.commands) {
+            const params = command.match(line, '!');
+            if (params === null) continue;
+
+            if (command.canExecute(userId(this.channel), userId(userName))) {
+                await command.execute(params, this.createContext(userName, level, replies));
+            }
+            return replies;
+        }
+
+        this.messageHandlers.forEach(handler => handler());
+        return replies;
+    }
+
+    private createContext(userName: string, level: PermissionLevel, replies: string[]): BotCommandContext {
+        const context = {
+            broadcasterId: userId(this.channel),
+            broadcasterName: this.channel,
+            userId: userId(userName),
+            userName: userName.toLowerCase(),
+            userDisplayName: userName,
+            msg: {
+                userInfo: {
+                    isBroadcaster: level === 'broadcaster',
+                    isMod: level === 'moderator',
+                    isVip: level === 'vip',
+                    isSubscriber: level === 'subscriber',
+                    isFounder: false
+                }
+            },
+            reply: async (text: string) => { replies.push(text) },
+            say: async (text: string) => { replies.push(text) }
+        };
+        return context as unknown as BotCommandContext;
+    }
+
+    private createBot(commands: BotCommand[]): Bot {
+        this.commands = commands;
+
+        const bot = {
+            chat: { isConnected: true, quit: () => { } },
+            onMessage: (handler: () => void) => { this.messageHandlers.push(handler) },
+            say: async (_channel: string, text: string) => { this.said.push(text) }
+        };
+        return bot as unknown as Bot;
+    }
+
+    private createEventListener(): EventSubWsListener {
+        const listener = {
+            onStreamOnline: (_user: unknown, handler: StreamHandler) => { this.onlineHandlers.push(handler) },
+            onStreamOffline: (_user: unknown, handler: StreamHandler) => { this.offlineHandlers.push(handler) },
+            onUserSocketConnect: (handler: () => void) => {
+                this.connectHandlers.push(handler);
+                if (this.eventSubConnected) handler();
+            },
+            onUserSocketDisconnect: (handler: (userId: string, error?: Error) => void) => { this.disconnectHandlers.push(handler) },
+            start: () => { },
+            stop: () => { }
+        };
+        return listener as unknown as EventSubWsListener;
+    }
+
+    private createApiClient(): ApiClient {
+        const getStream = async () => this.live && {
+            ...this.live,
+            getThumbnailUrl: () => null
+        };
+
+        const apiClient = {
+            users: {
+                getUserByName: async (name: string) => ({ id: userId(name), name: name.toLowerCase(), displayName: name })
+            },
+            streams: {
+                getStreamByUserName: getStream,
+                getStreamByUserId: getStream
+            },
+            channels: {
+                getChannelInfoById: async () => ({ title: 'Stream de prueba', gameName: 'Just Chatting' }),
+                addVip: async (_broadcaster: unknown, user: UserResolvable) => {
+                    if (this.vips.has(resolveUserId(user))) throw new Error('The user is already a VIP');
+                    this.vips.add(resolveUserId(user));
+                },
+                removeVip: async (_broadcaster: unknown, user: UserResolvable) => {
+                    if (!this.vips.delete(resolveUserId(user))) throw new Error('The user is not a VIP');
+                }
+            },
+            videos: {
+                getVideoById: async (id: string) => this.videos.get(id) ?? null
+            }
+        };
+        return apiClient as unknown as ApiClient;
+    }
+}
+
+type UserResolvable = string | { id: string };
+
+// Simulated users get an id made from their name
+function userId(userName: string): string {
+    return `user-${userName.toLowerCase()}`;
+}
+
+function resolveUserId(user: UserResolvable): string {
+    return typeof user === 'string' ? user : user.id;
+}
@@ -0,0 +1,12 @@
+import { FakeDiscord } from './fake-discord';
+import { FakeTwitch } from './fake-twitch';
+
+// The fakes index.ts runs on when SIMULATION is set
+export class Simulation {
+    readonly twitch: FakeTwitch;
+    readonly discord = new FakeDiscord();
+
+    constructor(channel: string) {
+        this.twitch = new FakeTwitch(channel);
+    }
+}
@@ -0,0 +1,125 @@
+import { parseDuration } from '../duration';
+import { StreamRepository } from '../storage/stream-repository';
+import { formatTagMessage } from '../stream';
+import { PermissionLevel } from '../storage/permission-repository';
+import { CommandOption, DiscordReply } from './fake-discord';
+import { Simulation } from './simulation';
+
+// What a step is expected to produce: `expect` must be found in one of the replies, `silent` means no reply at all
+interface Expectation {
+    expect?: string;
+    silent?: boolean;
+}
+
+export type TranscriptStep =
+    | { type: 'online', streamId?: string, title?: string, startedAgo?: string }
+    | { type: 'offline', vodId?: string }
+    // Stream events are missed while disconnected, the bot catches up when it connects again
+    | { type: 'eventsub', connected: boolean }
+    | { type: 'chat', user: string, level?: PermissionLevel, text: string } & Expectation
+    | { type: 'discord', command: string, subcommand?: string, options?: Record<string, CommandOption>, user?: string } & Expectation
+    | { type: 'message', user?: string, text: string } & Expectation
+    // Each expected text must be found in a stored tag, written as `#category message`
+    | { type: 'tags', streamId: string, expect: string[], count?: number };
+
+export interface StepResult {
+    step: TranscriptStep;
+    output: string[];
+    failure: string | null;
+}
+
+// Runs every step, a failed step doesn't stop the ones after it
+export async function replayTranscript(simulation: Simulation, streamRepository: StreamRepository, steps: TranscriptStep[]): Promise<StepResult[]> {
+    const results: StepResult[] = [];
+
+    for (const step of steps) {
+        try {
+            results.push(await runStep(simulation, streamRepository, step));
+        } catch (error) {
+            results.push({ step, output: [], failure: `${error}` });
+        }
+    }
+
+    return results;
+}
+
+export function describeStep(step: TranscriptStep): string {
+    switch (step.type) {
+        case 'online': return `stream online${step.streamId ? ` ${step.streamId}` : ''}`;
+        case 'offline': return `stream offline${step.vodId ? `, vod ${step.vodId}` : ''}`;
+        case 'eventsub': return `eventsub ${step.connected ? 'connected' : 'disconnected'}`;
+        case 'chat': return `twitch <${step.user}> ${step.text}`;
+        case 'discord': return `discord /${step.command}${step.subcommand ? ` ${step.subcommand}` : ''}`;
+        case 'message': return `discord <${step.user ?? 'usuario'}> ${step.text}`;
+        case 'tags': return `tags of stream ${step.streamId}`;
+    }
+}
+
+async function runStep(simulation: Simulation, streamRepository: StreamRepository, step: TranscriptStep): Promise<StepResult> {
+    switch (step.type) {
+        case 'online': {
+            const startedAgo = parseDuration(step.startedAgo) ?? 0;
+            const stream = await simulation.twitch.goOnline({
+                id: step.streamId,
+                title: step.title,
+                startDate: new Date(Date.now() - startedAgo)
+            });
+            return { step, output: [`stream ${stream.id}`], failure: null };
+        }
+        case 'offline': {
+            const vod = await simulation.twitch.goOffline(step.vodId);
+            return { step, output: vod ? [`vod ${vod.id}`] : [], failure: null };
+        }
+        case 'eventsub': {
+            await simulation.twitch.setEventSubConnected(step.connected);
+            return { step, output: [], failure: null };
+        }
+        case 'chat': {
+            const replies = await simulation.twitch.chat({ userName: step.user, level: step.level ?? 'everyone' }, step.text);
+            return checkReplies(step, replies);
+        }
+        case 'discord': {
+            const replies = await simulation.discord.runCommand(step.command, {
+                subcommand: step.subcommand,
+                options: step.options,
+                userName: step.user
+            });
+            return checkReplies(step, replies.map(describeReply));
+        }
+        case 'message': {
+            const replies = await simulation.discord.sendMessage(step.text, step.user);
+            return checkReplies(step, replies.map(describeReply));
+        }
+        case 'tags': {
+            const stream = await streamRepository.getStream(step.streamId);
+            const tags = (stream?.tags ?? []).map(tag => `${tag.category ? `#${tag.category} ` : ''}${formatTagMessage(tag)}`);
+            const missing = step.expect.filter(text => !tags.some(tag => tag.includes(text)));
+
+            const failure = !stream ? `Stream ${step.streamId} was not stored`
+                : missing.length > 0 ? `Missing tags: ${missing.join(', ')}`
+                : step.count !== undefined && tags.length !== step.count ? `Expected ${step.count} tags, found ${tags.length}`
+                : null;
+            return { step, output: tags, failure };
+        }
+    }
+}
+
+function checkReplies(step: TranscriptStep & Expectation, output: string[]): StepResult {
+    let failure: string | null = null;
+
+    if (step.silent && output.length > 0) {
+        failure = 'Expected no reply';
+    } else if (step.expect && !output.some(reply => reply.includes(step.expect!))) {
+        failure = `Expected a reply with "${step.expect}"`;
+    }
+
+    return { step, output, failure };
+}
+
+function describeReply({ content, embeds, files }: DiscordReply): string {
+    return [
+        content,
+        ...embeds,
+        ...files.map(file => `[${file.name}]\n${file.text}`)
+    ].filter(Boolean).join('\n');
+}
@@ -0,0 +1,23 @@
+// A go-live message posted in a guild, kept to edit it when the stream ends
+export interface StreamAnnouncement {
+    id?: number;
+    streamId: string;
+    guildId: string;
+    channelId: string;
+    messageId: string;
+    // Whether the announcement role was pinged
+    pinged: boolean;
+    createdAt: Date;
+    endedAt: Date | null;
+}
+
+export interface AnnouncementRepository {
+    addAnnouncement(announcement: StreamAnnouncement): Promise<StreamAnnouncement>;
+    // Announcements of the stream that were not updated as ended yet
+    getOpenAnnouncements(streamId: string): Promise<StreamAnnouncement[]>;
+    markEnded(announcementId: number, endedAt: Date): Promise<void>;
+    // When the guild's role was last pinged, null if never
+    getLastPing(guildId: string): Promise<Date | null>;
+    // The stream of the guild's latest announcement, null if none
+    getLastStreamId(guildId: string): Promise<string | null>;
+}
@@ -0,0 +1,41 @@
+export type AuditPlatform = 'twitch' | 'discord' | 'bot';
+
+export type AuditAction =
+    | 'vip-add'
+    | 'vip-remove'
+    | 'vip-expire'
+    | 'tag-create'
+    | 'tag-merge'
+    | 'mention-delete'
+    | 'auth-login'
+    | 'auth-failed';
+
+// Who did what, when and where
+export interface AuditEntry {
+    id?: number;
+    platform: AuditPlatform;
+    action: AuditAction;
+    // The Twitch or Discord user name, or the bot
+    actor: string;
+    // Who or what the action was done to
+    target: string | null;
+    detail: string | null;
+    // Null for Twitch and bot actions, they belong to every guild
+    guildId: string | null;
+    createdAt: Date;
+}
+
+export interface AuditFilter {
+    guildId: string;
+    // Matches the actor or the target
+    user: string | null;
+    action: AuditAction | null;
+    since: Date | null;
+    limit: number;
+}
+
+export interface AuditRepository {
+    addEntry(entry: AuditEntry): Promise<AuditEntry>;
+    // Newest first
+    getEntries(filter: AuditFilter): Promise<AuditEntry[]>;
+}
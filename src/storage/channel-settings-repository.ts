@@ -0,0 +1,26 @@
+export interface CommandCooldown {
+    // Seconds before anyone can use the command again
+    globalSeconds: number;
+    // Seconds before the same user can use the command again
+    userSeconds: number;
+}
+
+// Settings of the Twitch chat commands of a channel
+export interface ChannelSettingsRepository {
+    // Tags written this many seconds after the previous one are merged into it, 0 turns it off
+    getTagMergeSeconds(channel: string): Promise<number>;
+    setTagMergeSeconds(channel: string, seconds: number): Promise<void>;
+    getCooldown(channel: string, command: string): Promise<CommandCooldown>;
+    setCooldown(channel: string, command: string, cooldown: CommandCooldown): Promise<void>;
+}
+
+export const DEFAULT_TAG_MERGE_SECONDS = 10;
+
+export const NO_COOLDOWN: CommandCooldown = { globalSeconds: 0, userSeconds: 0 };
+
+export const DEFAULT_COMMAND_COOLDOWNS: Record<string, CommandCooldown> = {
+    tag: { globalSeconds: 0, userSeconds: 5 },
+    vip: { globalSeconds: 0, userSeconds: 5 },
+    unvip: { globalSeconds: 0, userSeconds: 5 },
+    'custom-command': { globalSeconds: 0, userSeconds: 10 }
+};
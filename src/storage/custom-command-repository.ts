@@ -0,0 +1,26 @@
+// Where a custom command answers
+export type CommandPlatform = 'twitch' | 'discord' | 'both';
+
+// A text command like !discord, defined once for Twitch and Discord
+export interface CustomCommand {
+    id?: number;
+    // Null for the commands of the Twitch channel, which answer in every guild.
+    // Commands made with /command belong to their guild and only answer there.
+    guildId: string | null;
+    // Without the !
+    name: string;
+    // May contain variables such as {user}, see renderCommandResponse
+    response: string;
+    platform: CommandPlatform;
+    updatedBy: string;
+    updatedAt: Date;
+}
+
+// Every method works on the commands of one guild, or of the Twitch channel when guildId is null
+export interface CustomCommandRepository {
+    getCommands(guildId: string | null): Promise<CustomCommand[]>;
+    getCommand(name: string, guildId: string | null): Promise<CustomCommand | null>;
+    // Creates the command or replaces the one with the same name
+    saveCommand(command: CustomCommand): Promise<CustomCommand>;
+    deleteCommand(name: string, guildId: string | null): Promise<boolean>;
+}
@@ -0,0 +1,283 @@
+import Database from 'better-sqlite3';
+import { logger } from '../logger';
+
+// Each entry upgrades the schema by one version. Never edit an entry that has
+// already shipped, append a new one instead.
+const MIGRATIONS: string[] = [
+    `
+    CREATE TABLE streams (
+        id TEXT PRIMARY KEY,
+        start_time TEXT NOT NULL,
+        delay INTEGER NOT NULL DEFAULT 0,
+        vod_delay INTEGER NOT NULL DEFAULT 0
+    );
+
+    CREATE TABLE moderators (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE
+    );
+
+    CREATE TABLE tags (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        stream_id TEXT NOT NULL REFERENCES streams(id) ON DELETE CASCADE,
+        timestamp TEXT NOT NULL,
+        relative_time TEXT NOT NULL,
+        relative_timestamp INTEGER NOT NULL,
+        moderator_id INTEGER NOT NULL REFERENCES moderators(id),
+        message TEXT NOT NULL
+    );
+
+    CREATE INDEX tags_stream_id ON tags(stream_id);
+
+    CREATE TABLE vods (
+        vod_id TEXT PRIMARY KEY,
+        stream_id TEXT NOT NULL REFERENCES streams(id) ON DELETE CASCADE
+    );
+    `,
+    `
+    ALTER TABLE tags ADD COLUMN deleted_at TEXT;
+
+    CREATE TABLE tag_edits (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+        edited_at TEXT NOT NULL,
+        editor TEXT NOT NULL,
+        action TEXT NOT NULL,
+        previous_timestamp TEXT NOT NULL,
+        previous_relative_time TEXT NOT NULL,
+        previous_relative_timestamp INTEGER NOT NULL,
+        previous_message TEXT NOT NULL,
+        previous_deleted_at TEXT
+    );
+
+    CREATE INDEX tag_edits_tag_id ON tag_edits(tag_id);
+    `,
+    `
+    ALTER TABLE tags ADD COLUMN category TEXT;
+    ALTER TABLE tags ADD COLUMN hashtags TEXT NOT NULL DEFAULT '[]';
+
+    CREATE INDEX tags_category ON tags(stream_id, category);
+
+    ALTER TABLE tag_edits ADD COLUMN previous_category TEXT;
+    ALTER TABLE tag_edits ADD COLUMN previous_hashtags TEXT NOT NULL DEFAULT '[]';
+
+    CREATE TABLE tag_aliases (
+        channel TEXT NOT NULL,
+        alias TEXT NOT NULL,
+        category TEXT NOT NULL,
+        PRIMARY KEY (channel, alias)
+    );
+
+    -- Channels that changed their aliases, the rest use the defaults
+    CREATE TABLE tag_alias_channels (
+        channel TEXT PRIMARY KEY
+    );
+    `,
+    `
+    -- Stream used to copy delay into vod_delay, it was never applied to the stored tags
+    UPDATE streams SET vod_delay = 0 WHERE vod_delay = delay;
+    `,
+    `
+    ALTER TABLE streams ADD COLUMN end_time TEXT;
+
+    CREATE INDEX streams_start_time ON streams(start_time);
+    `,
+    `
+    CREATE TABLE mention_rules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        guild_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        protected_roles TEXT NOT NULL DEFAULT '[]',
+        protected_users TEXT NOT NULL DEFAULT '[]',
+        exempt_roles TEXT NOT NULL DEFAULT '[]',
+        allowed_channels TEXT NOT NULL DEFAULT '[]',
+        action TEXT NOT NULL,
+        warning_text TEXT NOT NULL,
+        reply_warning_text TEXT NOT NULL,
+        warning_image TEXT,
+        UNIQUE (guild_id, name)
+    );
+    `,
+    `
+    CREATE TABLE infractions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        guild_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        rule_name TEXT NOT NULL,
+        message_url TEXT,
+        content TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        pardoned_at TEXT,
+        pardoned_by TEXT
+    );
+
+    CREATE INDEX infractions_member ON infractions(guild_id, user_id, created_at);
+
+    -- Guilds without a row use the default escalation
+    CREATE TABLE infraction_settings (
+        guild_id TEXT PRIMARY KEY,
+        steps TEXT NOT NULL,
+        decay_days INTEGER NOT NULL
+    );
+    `,
+    `
+    CREATE TABLE guild_settings (
+        guild_id TEXT PRIMARY KEY,
+        mod_channel_id TEXT,
+        log_channel_id TEXT,
+        error_channel_id TEXT,
+        vanity_code TEXT,
+        owner_id TEXT,
+        invite_link TEXT
+    );
+    `,
+    `
+    ALTER TABLE guild_settings ADD COLUMN announcement_channel_id TEXT;
+    ALTER TABLE guild_settings ADD COLUMN announcement_role_id TEXT;
+    ALTER TABLE guild_settings ADD COLUMN announcement_message TEXT;
+    ALTER TABLE guild_settings ADD COLUMN announcement_cooldown_minutes INTEGER NOT NULL DEFAULT 30;
+
+    CREATE TABLE stream_announcements (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        stream_id TEXT NOT NULL,
+        guild_id TEXT NOT NULL,
+        channel_id TEXT NOT NULL,
+        message_id TEXT NOT NULL,
+        pinged INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        ended_at TEXT
+    );
+
+    CREATE INDEX stream_announcements_stream_id ON stream_announcements(stream_id);
+    CREATE INDEX stream_announcements_guild_id ON stream_announcements(guild_id, created_at);
+    `,
+    `
+    -- Commands missing here use their default level
+    CREATE TABLE command_permissions (
+        channel TEXT NOT NULL,
+        command TEXT NOT NULL,
+        level TEXT NOT NULL,
+        PRIMARY KEY (channel, command)
+    );
+
+    CREATE TABLE command_editors (
+        channel TEXT NOT NULL,
+        user_name TEXT NOT NULL,
+        PRIMARY KEY (channel, user_name)
+    );
+    `,
+    `
+    CREATE TABLE channel_settings (
+        channel TEXT PRIMARY KEY,
+        tag_merge_seconds INTEGER NOT NULL
+    );
+
+    -- Commands missing here use their default cooldowns
+    CREATE TABLE command_cooldowns (
+        channel TEXT NOT NULL,
+        command TEXT NOT NULL,
+        global_seconds INTEGER NOT NULL,
+        user_seconds INTEGER NOT NULL,
+        PRIMARY KEY (channel, command)
+    );
+    `,
+    `
+    CREATE TABLE custom_commands (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        -- NULL for the commands of the Twitch channel, the others only answer in their guild
+        guild_id TEXT,
+        name TEXT NOT NULL,
+        response TEXT NOT NULL,
+        platform TEXT NOT NULL,
+        updated_by TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+    );
+    CREATE UNIQUE INDEX custom_commands_name ON custom_commands (COALESCE(guild_id, ''), name);
+
+    -- The !discord reply of each guild is a command of that guild now
+    INSERT INTO custom_commands (guild_id, name, response, platform, updated_by, updated_at)
+    SELECT guild_id, 'discord', invite_link, 'discord', 'botshi', strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+    FROM guild_settings WHERE invite_link IS NOT NULL;
+
+    ALTER TABLE guild_settings DROP COLUMN invite_link;
+    `,
+    `
+    CREATE TABLE timed_messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        message TEXT NOT NULL,
+        interval_minutes INTEGER NOT NULL,
+        min_chat_lines INTEGER NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        updated_by TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+    );
+    `,
+    `
+    -- Every VIP given by the bot, rows stay after the VIP is removed
+    CREATE TABLE vip_grants (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        channel TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        user_name TEXT NOT NULL,
+        granted_by TEXT NOT NULL,
+        granted_at TEXT NOT NULL,
+        -- NULL for VIPs without expiry
+        expires_at TEXT,
+        removed_at TEXT,
+        removed_by TEXT
+    );
+    CREATE INDEX vip_grants_active ON vip_grants (channel, removed_at);
+    `,
+    `
+    CREATE TABLE audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        platform TEXT NOT NULL,
+        action TEXT NOT NULL,
+        actor TEXT NOT NULL,
+        target TEXT,
+        detail TEXT,
+        -- NULL for Twitch and bot actions, they are shown in every guild
+        guild_id TEXT,
+        created_at TEXT NOT NULL
+    );
+    CREATE INDEX audit_log_created ON audit_log (created_at);
+
+    ALTER TABLE guild_settings ADD COLUMN audit_channel_id TEXT;
+    `,
+    `
+    -- The rule from the environment is only created once, a guild that deleted every rule keeps none
+    ALTER TABLE guild_settings ADD COLUMN mention_rules_seeded INTEGER NOT NULL DEFAULT 0;
+
+    INSERT INTO guild_settings (guild_id, mention_rules_seeded)
+    SELECT DISTINCT guild_id, 1 FROM mention_rules WHERE true
+    ON CONFLICT(guild_id) DO UPDATE SET mention_rules_seeded = 1;
+    `,
+    `
+    -- JSON list of the moderators whose tags were merged into the tag, after its author
+    ALTER TABLE tags ADD COLUMN merged_moderators TEXT NOT NULL DEFAULT '[]';
+    ALTER TABLE tag_edits ADD COLUMN previous_merged_moderators TEXT NOT NULL DEFAULT '[]';
+    `
+];
+
+export type BotDatabase = Database.Database;
+
+export function openDatabase(filename: string): BotDatabase {
+    const db = new Database(filename);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    migrate(db);
+    return db;
+}
+
+function migrate(db: BotDatabase) {
+    const version = db.pragma('user_version', { simple: true }) as number;
+
+    for (let i = version; i < MIGRATIONS.length; i++) {
+        db.transaction(() => {
+            db.exec(MIGRATIONS[i]);
+            db.pragma(`user_version = ${i + 1}`);
+        })();
+        logger.info('Database migrated', { version: i + 1 });
+    }
+}
@@ -0,0 +1,51 @@
+// Channels and people the bot needs in each guild. Anything left null turns the feature off.
+export interface GuildSettings {
+    guildId: string;
+    // Infraction flags and failing health checks
+    modChannelId: string | null;
+    // Reports of deleted mentions
+    logChannelId: string | null;
+    // Errors of the bot
+    errorChannelId: string | null;
+    // Warns the mods when the vanity link of the guild is not this one anymore
+    vanityCode: string | null;
+    // Pinged when a health check of the guild fails
+    ownerId: string | null;
+    // Where go-live announcements are posted
+    announcementChannelId: string | null;
+    announcementRoleId: string | null;
+    // Text above the announcement, the default one when null
+    announcementMessage: string | null;
+    // The role is not pinged again this soon, ie. when the stream drops and restarts
+    announcementCooldownMinutes: number;
+    // Copy of the audit log of moderator actions
+    auditChannelId: string | null;
+    // The mention rule from the environment was created, it is not created again after it is deleted
+    mentionRulesSeeded: boolean;
+}
+
+export interface GuildSettingsRepository {
+    // Guilds that were never configured get empty settings
+    getSettings(guildId: string): Promise<GuildSettings>;
+    getAllSettings(): Promise<GuildSettings[]>;
+    saveSettings(settings: GuildSettings): Promise<void>;
+}
+
+export const DEFAULT_ANNOUNCEMENT_COOLDOWN_MINUTES = 30;
+
+export function emptyGuildSettings(guildId: string): GuildSettings {
+    return {
+        guildId,
+        modChannelId: null,
+        logChannelId: null,
+        errorChannelId: null,
+        vanityCode: null,
+        ownerId: null,
+        announcementChannelId: null,
+        announcementRoleId: null,
+        announcementMessage: null,
+        announcementCooldownMinutes: DEFAULT_ANNOUNCEMENT_COOLDOWN_MINUTES,
+        auditChannelId: null,
+        mentionRulesSeeded: false
+    };
+}
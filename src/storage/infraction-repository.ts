@@ -0,0 +1,50 @@
+export type EscalationAction = 'warn' | 'timeout' | 'flag';
+
+export interface EscalationStep {
+    // Applies from this many active strikes until the next step
+    strikes: number;
+    action: EscalationAction;
+    // Only for timeouts
+    durationMinutes?: number;
+}
+
+export interface EscalationSettings {
+    guildId: string;
+    steps: EscalationStep[];
+    // Strikes older than this stop counting
+    decayDays: number;
+}
+
+export interface Infraction {
+    id?: number;
+    guildId: string;
+    userId: string;
+    ruleName: string;
+    messageUrl: string | null;
+    content: string;
+    createdAt: Date;
+    pardonedAt: Date | null;
+    pardonedBy: string | null;
+}
+
+export interface InfractionRepository {
+    addInfraction(infraction: Infraction): Promise<Infraction>;
+    // Every infraction of the member, newest first, including pardoned ones
+    getInfractions(guildId: string, userId: string): Promise<Infraction[]>;
+    // Infractions that still count as strikes: not pardoned and created after `since`
+    getActiveInfractions(guildId: string, userId: string, since: Date): Promise<Infraction[]>;
+    // Pardons one infraction, or every one not pardoned yet when no id is given. Returns how many were pardoned.
+    pardonInfractions(guildId: string, userId: string, pardonedBy: string, infractionId?: number): Promise<number>;
+    getEscalation(guildId: string): Promise<EscalationSettings>;
+    saveEscalation(settings: EscalationSettings): Promise<void>;
+}
+
+// warn → 10 min timeout → 1 day timeout → flag for mods
+export const DEFAULT_ESCALATION_STEPS: EscalationStep[] = [
+    { strikes: 1, action: 'warn' },
+    { strikes: 2, action: 'timeout', durationMinutes: 10 },
+    { strikes: 3, action: 'timeout', durationMinutes: 24 * 60 },
+    { strikes: 4, action: 'flag' }
+];
+
+export const DEFAULT_DECAY_DAYS = 30;
@@ -0,0 +1,84 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { StreamRepository } from './stream-repository';
+import { formatRelativeTime, getTimeDifference, parseTagMessage, Stream, StreamTag } from '../stream';
+import { logger } from '../logger';
+
+const TAG_FILE_PATTERN = /^tags\.(.+)\.json$/;
+
+// What older versions wrote, very old files miss some of the fields
+interface LegacyStreamJson {
+    id?: string | number;
+    startTime?: string;
+    delay?: number;
+    tags?: LegacyTagJson[];
+}
+
+interface LegacyTagJson {
+    timestamp?: string;
+    relativeTime?: string;
+    relativeTimestamp?: number;
+    moderator?: string;
+    message?: string;
+}
+
+// Imports every legacy tags.<streamId>.json file found in the directory.
+// Streams that are already stored are skipped, so running it again is harmless.
+export async function importJsonTags(repository: StreamRepository, directory: string): Promise<number> {
+    const files = (await fs.readdir(directory)).filter(file => TAG_FILE_PATTERN.test(file));
+    let imported = 0;
+
+    for (const file of files) {
+        try {
+            const raw: unknown = JSON.parse(await fs.readFile(path.join(directory, file), 'utf-8'));
+            const stream = parseLegacyStream(raw, file.match(TAG_FILE_PATTERN)![1]);
+
+            if (await repository.getStream(stream.id)) {
+                continue;
+            }
+
+            await repository.importStream(stream);
+            imported++;
+            logger.info('Imported a legacy tag file', { streamId: stream.id, file, tags: stream.tags.length });
+        } catch (error) {
+            logger.error('Could not import a legacy tag file', { file, error });
+        }
+    }
+
+    return imported;
+}
+
+function parseLegacyStream(raw: unknown, fallbackId: string): Stream {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        throw new Error(`Stream ${fallbackId} is not a JSON object`);
+    }
+
+    const legacy: LegacyStreamJson = raw;
+    const id = `${legacy.id ?? fallbackId}`;
+    const startTime = new Date(legacy.startTime ?? NaN);
+
+    if (Number.isNaN(startTime.getTime())) {
+        throw new Error(`Stream ${id} has no valid start time`);
+    }
+
+    const legacyTags = Array.isArray(legacy.tags) ? legacy.tags : [];
+    const tags: StreamTag[] = legacyTags.map(tag => {
+        const timestamp = new Date(tag.timestamp ?? NaN);
+        // Very old files did not store the relative timestamp
+        const relativeTimestamp = typeof tag.relativeTimestamp === 'number' ?
+            tag.relativeTimestamp :
+            getTimeDifference(timestamp, startTime, 0);
+
+        return {
+            timestamp,
+            relativeTime: typeof tag.relativeTime === 'string' ? tag.relativeTime : formatRelativeTime(relativeTimestamp),
+            relativeTimestamp,
+            moderator: typeof tag.moderator === 'string' ? tag.moderator : 'unknown',
+            mergedModerators: [],
+            ...parseTagMessage(typeof tag.message === 'string' ? tag.message : '')
+        };
+    });
+
+    // Old versions wrote a copy of delay into vodDelay that was never applied to the tags
+    return new Stream(id, startTime, typeof legacy.delay === 'number' ? legacy.delay : 0, 0, tags);
+}
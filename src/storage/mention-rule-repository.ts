@@ -0,0 +1,27 @@
+export type MentionAction = 'delete' | 'warn' | 'both';
+
+export interface MentionRule {
+    id?: number;
+    guildId: string;
+    name: string;
+    // Mentioning any member with these roles, or these users, breaks the rule
+    protectedRoles: string[];
+    protectedUsers: string[];
+    // Members with these roles may mention anyone
+    exemptRoles: string[];
+    // Channels where mentions are allowed
+    allowedChannels: string[];
+    action: MentionAction;
+    warningText: string;
+    // Shown when the mention comes from replying to a protected member
+    replyWarningText: string;
+    warningImage: string | null;
+}
+
+export interface MentionRuleRepository {
+    getRules(guildId: string): Promise<MentionRule[]>;
+    getRule(guildId: string, name: string): Promise<MentionRule | null>;
+    // Creates the rule or replaces the one with the same name
+    saveRule(rule: MentionRule): Promise<MentionRule>;
+    deleteRule(guildId: string, name: string): Promise<boolean>;
+}
@@ -0,0 +1,34 @@
+// From least to most privileged, every level includes the ones above it
+export type PermissionLevel = 'everyone' | 'subscriber' | 'vip' | 'editor' | 'moderator' | 'broadcaster';
+
+// Who may use each Twitch chat command, per channel
+export interface PermissionRepository {
+    // Only the levels that were changed, the rest use DEFAULT_COMMAND_PERMISSIONS
+    getLevels(channel: string): Promise<Map<string, PermissionLevel>>;
+    setLevel(channel: string, command: string, level: PermissionLevel): Promise<void>;
+    // Users with the editor level, besides mods and the broadcaster
+    getEditors(channel: string): Promise<string[]>;
+    addEditor(channel: string, userName: string): Promise<void>;
+    removeEditor(channel: string, userName: string): Promise<boolean>;
+}
+
+export const DEFAULT_PERMISSION_LEVEL: PermissionLevel = 'everyone';
+
+export const DEFAULT_COMMAND_PERMISSIONS: Record<string, PermissionLevel> = {
+    tag: 'vip',
+    untag: 'vip',
+    edittag: 'vip',
+    retime: 'vip',
+    tagalias: 'moderator',
+    delay: 'moderator',
+    vip: 'moderator',
+    unvip: 'moderator',
+    viplist: 'moderator',
+    cooldown: 'moderator',
+    tagmerge: 'moderator',
+    addcom: 'moderator',
+    editcom: 'moderator',
+    delcom: 'moderator',
+    editor: 'broadcaster',
+    perm: 'broadcaster'
+};
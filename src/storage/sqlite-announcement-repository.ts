@@ -0,0 +1,86 @@
+import { Statement } from 'better-sqlite3';
+import { BotDatabase } from './database';
+import { AnnouncementRepository, StreamAnnouncement } from './announcement-repository';
+
+interface AnnouncementRow {
+    id: number;
+    stream_id: string;
+    guild_id: string;
+    channel_id: string;
+    message_id: string;
+    pinged: number;
+    created_at: string;
+    ended_at: string | null;
+}
+
+const ANNOUNCEMENT_COLUMNS = 'id, stream_id, guild_id, channel_id, message_id, pinged, created_at, ended_at';
+
+export class SqliteAnnouncementRepository implements AnnouncementRepository {
+    private insertAnnouncement: Statement<[string, string, string, string, number, string]>;
+    private selectAnnouncement: Statement<[number | bigint], AnnouncementRow>;
+    private selectOpen: Statement<[string], AnnouncementRow>;
+    private updateEnded: Statement<[string, number]>;
+    private selectLastPing: Statement<[string], { created_at: string | null }>;
+    private selectLastStreamId: Statement<[string], { stream_id: string }>;
+
+    constructor(db: BotDatabase) {
+        this.insertAnnouncement = db.prepare(`
+            INSERT INTO stream_announcements (stream_id, guild_id, channel_id, message_id, pinged, created_at)
+            VALUES (?, ?, ?, ?, ?, ?)
+        `);
+        this.selectAnnouncement = db.prepare(`SELECT ${ANNOUNCEMENT_COLUMNS} FROM stream_announcements WHERE id = ?`);
+        this.selectOpen = db.prepare(`
+            SELECT ${ANNOUNCEMENT_COLUMNS} FROM stream_announcements
+            WHERE stream_id = ? AND ended_at IS NULL
+        `);
+        this.updateEnded = db.prepare('UPDATE stream_announcements SET ended_at = ? WHERE id = ?');
+        this.selectLastPing = db.prepare(`
+            SELECT MAX(created_at) AS created_at FROM stream_announcements WHERE guild_id = ? AND pinged = 1
+        `);
+        this.selectLastStreamId = db.prepare(`
+            SELECT stream_id FROM stream_announcements WHERE guild_id = ? ORDER BY created_at DESC, id DESC LIMIT 1
+        `);
+    }
+
+    async addAnnouncement(announcement: StreamAnnouncement): Promise<StreamAnnouncement> {
+        const result = this.insertAnnouncement.run(
+            announcement.streamId,
+            announcement.guildId,
+            announcement.channelId,
+            announcement.messageId,
+            announcement.pinged ? 1 : 0,
+            announcement.createdAt.toISOString()
+        );
+        return announcementFromRow(this.selectAnnouncement.get(result.lastInsertRowid)!);
+    }
+
+    async getOpenAnnouncements(streamId: string): Promise<StreamAnnouncement[]> {
+        return this.selectOpen.all(streamId).map(announcementFromRow);
+    }
+
+    async markEnded(announcementId: number, endedAt: Date): Promise<void> {
+        this.updateEnded.run(endedAt.toISOString(), announcementId);
+    }
+
+    async getLastPing(guildId: string): Promise<Date | null> {
+        const row = this.selectLastPing.get(guildId);
+        return row?.created_at ? new Date(row.created_at) : null;
+    }
+
+    async getLastStreamId(guildId: string): Promise<string | null> {
+        return this.selectLastStreamId.get(guildId)?.stream_id ?? null;
+    }
+}
+
+function announcementFromRow(row: AnnouncementRow): StreamAnnouncement {
+    return {
+        id: row.id,
+        streamId: row.stream_id,
+        guildId: row.guild_id,
+        channelId: row.channel_id,
+        messageId: row.message_id,
+        pinged: row.pinged === 1,
+        createdAt: new Date(row.created_at),
+        endedAt: row.ended_at ? new Date(row.ended_at) : null
+    };
+}
@@ -0,0 +1,83 @@
+import { Statement } from 'better-sqlite3';
+import { BotDatabase } from './database';
+import { AuditAction, AuditEntry, AuditFilter, AuditPlatform, AuditRepository } from './audit-repository';
+
+interface AuditRow {
+    id: number;
+    platform: AuditPlatform;
+    action: AuditAction;
+    actor: string;
+    target: string | null;
+    detail: string | null;
+    guild_id: string | null;
+    created_at: string;
+}
+
+interface AuditFilterParams {
+    guildId: string;
+    user: string | null;
+    action: string | null;
+    since: string | null;
+    limit: number;
+}
+
+const AUDIT_COLUMNS = 'id, platform, action, actor, target, detail, guild_id, created_at';
+
+export class SqliteAuditRepository implements AuditRepository {
+    private insertEntry: Statement<[string, string, string, string | null, string | null, string | null, string]>;
+    private selectEntry: Statement<[number | bigint], AuditRow>;
+    private selectEntries: Statement<[AuditFilterParams], AuditRow>;
+
+    constructor(db: BotDatabase) {
+        this.insertEntry = db.prepare(`
+            INSERT INTO audit_log (platform, action, actor, target, detail, guild_id, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+        `);
+        this.selectEntry = db.prepare(`SELECT ${AUDIT_COLUMNS} FROM audit_log WHERE id = ?`);
+        this.selectEntries = db.prepare(`
+            SELECT ${AUDIT_COLUMNS} FROM audit_log
+            WHERE (guild_id IS NULL OR guild_id = @guildId)
+                AND (@user IS NULL OR lower(actor) = @user OR lower(target) = @user)
+                AND (@action IS NULL OR action = @action)
+                AND (@since IS NULL OR created_at >= @since)
+            ORDER BY created_at DESC, id DESC
+            LIMIT @limit
+        `);
+    }
+
+    async addEntry(entry: AuditEntry): Promise<AuditEntry> {
+        const result = this.insertEntry.run(
+            entry.platform,
+            entry.action,
+            entry.actor,
+            entry.target,
+            entry.detail,
+            entry.guildId,
+            entry.createdAt.toISOString()
+        );
+        return entryFromRow(this.selectEntry.get(result.lastInsertRowid)!);
+    }
+
+    async getEntries(filter: AuditFilter): Promise<AuditEntry[]> {
+        return this.selectEntries.all({
+            guildId: filter.guildId,
+            user: filter.user?.replace(/^@/, '').toLowerCase() ?? null,
+            action: filter.action,
+            since: filter.since?.toISOString() ?? null,
+            limit: filter.limit
+        }).map(entryFromRow);
+    }
+}
+
+function entryFromRow(row: AuditRow): AuditEntry {
+    return {
+        id: row.id,
+        platform: row.platform,
+        action: row.action,
+        actor: row.actor,
+        target: row.target,
+        detail: row.detail,
+        guildId: row.guild_id,
+        createdAt: new Date(row.created_at)
+    };
+}
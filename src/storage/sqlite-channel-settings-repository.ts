@@ -0,0 +1,51 @@
+import { Statement } from 'better-sqlite3';
+import { BotDatabase } from './database';
+import {
+    ChannelSettingsRepository,
+    CommandCooldown,
+    DEFAULT_COMMAND_COOLDOWNS,
+    DEFAULT_TAG_MERGE_SECONDS,
+    NO_COOLDOWN
+} from './channel-settings-repository';
+
+export class SqliteChannelSettingsRepository implements ChannelSettingsRepository {
+    private selectMergeSeconds: Statement<[string], { tag_merge_seconds: number }>;
+    private upsertMergeSeconds: Statement<[string, number]>;
+    private selectCooldown: Statement<[string, string], { global_seconds: number, user_seconds: number }>;
+    private upsertCooldown: Statement<[string, string, number, number]>;
+
+    constructor(db: BotDatabase) {
+        this.selectMergeSeconds = db.prepare('SELECT tag_merge_seconds FROM channel_settings WHERE channel = ?');
+        this.upsertMergeSeconds = db.prepare(`
+            INSERT INTO channel_settings (channel, tag_merge_seconds) VALUES (?, ?)
+            ON CONFLICT(channel) DO UPDATE SET tag_merge_seconds = excluded.tag_merge_seconds
+        `);
+        this.selectCooldown = db.prepare('SELECT global_seconds, user_seconds FROM command_cooldowns WHERE channel = ? AND command = ?');
+        this.upsertCooldown = db.prepare(`
+            INSERT INTO command_cooldowns (channel, command, global_seconds, user_seconds) VALUES (?, ?, ?, ?)
+            ON CONFLICT(channel, command) DO UPDATE SET
+                global_seconds = excluded.global_seconds,
+                user_seconds = excluded.user_seconds
+        `);
+    }
+
+    async getTagMergeSeconds(channel: string): Promise<number> {
+        return this.selectMergeSeconds.get(channel.toLowerCase())?.tag_merge_seconds ?? DEFAULT_TAG_MERGE_SECONDS;
+    }
+
+    async setTagMergeSeconds(channel: string, seconds: number): Promise<void> {
+        this.upsertMergeSeconds.run(channel.toLowerCase(), seconds);
+    }
+
+    async getCooldown(channel: string, command: string): Promise<CommandCooldown> {
+        const row = this.selectCooldown.get(channel.toLowerCase(), command.toLowerCase());
+        if (!row) {
+            return DEFAULT_COMMAND_COOLDOWNS[command.toLowerCase()] ?? NO_COOLDOWN;
+        }
+        return { globalSeconds: row.global_seconds, userSeconds: row.user_seconds };
+    }
+
+    async setCooldown(channel: string, command: string, cooldown: CommandCooldown): Promise<void> {
+        this.upsertCooldown.run(channel.toLowerCase(), command.toLowerCase(), cooldown.globalSeconds, cooldown.userSeconds);
+    }
+}
@@ -0,0 +1,74 @@
+import { Statement } from 'better-sqlite3';
+import { BotDatabase } from './database';
+import { CommandPlatform, CustomCommand, CustomCommandRepository } from './custom-command-repository';
+
+interface CustomCommandRow {
+    id: number;
+    guild_id: string | null;
+    name: string;
+    response: string;
+    platform: CommandPlatform;
+    updated_by: string;
+    updated_at: string;
+}
+
+const COMMAND_COLUMNS = 'id, guild_id, name, response, platform, updated_by, updated_at';
+
+export class SqliteCustomCommandRepository implements CustomCommandRepository {
+    private selectCommands: Statement<[{ guildId: string | null }], CustomCommandRow>;
+    private selectCommand: Statement<[string | null, string], CustomCommandRow>;
+    private upsertCommand: Statement<[string | null, string, string, CommandPlatform, string, string]>;
+    private deleteCommandRow: Statement<[string | null, string]>;
+
+    constructor(db: BotDatabase) {
+        // IS matches the null guild of the Twitch commands too
+        this.selectCommands = db.prepare(`SELECT ${COMMAND_COLUMNS} FROM custom_commands WHERE guild_id IS @guildId ORDER BY name`);
+        this.selectCommand = db.prepare(`SELECT ${COMMAND_COLUMNS} FROM custom_commands WHERE guild_id IS ? AND name = ?`);
+        this.upsertCommand = db.prepare(`
+            INSERT INTO custom_commands (guild_id, name, response, platform, updated_by, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+            ON CONFLICT(COALESCE(guild_id, ''), name) DO UPDATE SET
+                response = excluded.response,
+                platform = excluded.platform,
+                updated_by = excluded.updated_by,
+                updated_at = excluded.updated_at
+        `);
+        this.deleteCommandRow = db.prepare('DELETE FROM custom_commands WHERE guild_id IS ? AND name = ?');
+    }
+
+    async getCommands(guildId: string | null): Promise<CustomCommand[]> {
+        return this.selectCommands.all({ guildId }).map(commandFromRow);
+    }
+
+    async getCommand(name: string, guildId: string | null): Promise<CustomCommand | null> {
+        const row = this.selectCommand.get(guildId, name.toLowerCase());
+        return row ? commandFromRow(row) : null;
+    }
+
+    async saveCommand(command: CustomCommand): Promise<CustomCommand> {
+        this.upsertCommand.run(
+            command.guildId,
+            command.name.toLowerCase(),
+            command.response,
+            command.platform,
+            command.updatedBy,
+            command.updatedAt.toISOString()
+        );
+        return commandFromRow(this.selectCommand.get(command.guildId, command.name.toLowerCase())!);
+    }
+
+    async deleteCommand(name: string, guildId: string | null): Promise<boolean> {
+        return this.deleteCommandRow.run(guildId, name.toLowerCase()).changes > 0;
+    }
+}
+
+function commandFromRow(row: CustomCommandRow): CustomCommand {
+    return {
+        id: row.id,
+        guildId: row.guild_id,
+        name: row.name,
+        response: row.response,
+        platform: row.platform,
+        updatedBy: row.updated_by,
+        updatedAt: new Date(row.updated_at)
+    };
+}
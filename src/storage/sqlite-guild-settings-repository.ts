@@ -0,0 +1,98 @@
+import { Statement } from 'better-sqlite3';
+import { BotDatabase } from './database';
+import { emptyGuildSettings, GuildSettings, GuildSettingsRepository } from './guild-settings-repository';
+
+interface GuildSettingsRow {
+    guild_id: string;
+    mod_channel_id: string | null;
+    log_channel_id: string | null;
+    error_channel_id: string | null;
+    vanity_code: string | null;
+    owner_id: string | null;
+    announcement_channel_id: string | null;
+    announcement_role_id: string | null;
+    announcement_message: string | null;
+    announcement_cooldown_minutes: number;
+    audit_channel_id: string | null;
+    mention_rules_seeded: number;
+}
+
+type GuildSettingsParams = [
+    string, string | null, string | null, string | null, string | null, string | null,
+    string | null, string | null, string | null, number, string | null, number
+];
+
+const SETTINGS_COLUMNS = `
+    guild_id, mod_channel_id, log_channel_id, error_channel_id, vanity_code, owner_id,
+    announcement_channel_id, announcement_role_id, announcement_message, announcement_cooldown_minutes,
+    audit_channel_id, mention_rules_seeded
+`;
+
+export class SqliteGuildSettingsRepository implements GuildSettingsRepository {
+    private selectSettings: Statement<[string], GuildSettingsRow>;
+    private selectAllSettings: Statement<[], GuildSettingsRow>;
+    private upsertSettings: Statement<GuildSettingsParams>;
+
+    constructor(db: BotDatabase) {
+        this.selectSettings = db.prepare(`SELECT ${SETTINGS_COLUMNS} FROM guild_settings WHERE guild_id = ?`);
+        this.selectAllSettings = db.prepare(`SELECT ${SETTINGS_COLUMNS} FROM guild_settings`);
+        this.upsertSettings = db.prepare(`
+            INSERT INTO guild_settings (${SETTINGS_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(guild_id) DO UPDATE SET
+                mod_channel_id = excluded.mod_channel_id,
+                log_channel_id = excluded.log_channel_id,
+                error_channel_id = excluded.error_channel_id,
+                vanity_code = excluded.vanity_code,
+                owner_id = excluded.owner_id,
+                announcement_channel_id = excluded.announcement_channel_id,
+                announcement_role_id = excluded.announcement_role_id,
+                announcement_message = excluded.announcement_message,
+                announcement_cooldown_minutes = excluded.announcement_cooldown_minutes,
+                audit_channel_id = excluded.audit_channel_id,
+                mention_rules_seeded = excluded.mention_rules_seeded
+        `);
+    }
+
+    async getSettings(guildId: string): Promise<GuildSettings> {
+        const row = this.selectSettings.get(guildId);
+        return row ? settingsFromRow(row) : emptyGuildSettings(guildId);
+    }
+
+    async getAllSettings(): Promise<GuildSettings[]> {
+        return this.selectAllSettings.all().map(settingsFromRow);
+    }
+
+    async saveSettings(settings: GuildSettings): Promise<void> {
+        this.upsertSettings.run(
+            settings.guildId,
+            settings.modChannelId,
+            settings.logChannelId,
+            settings.errorChannelId,
+            settings.vanityCode,
+            settings.ownerId,
+            settings.announcementChannelId,
+            settings.announcementRoleId,
+            settings.announcementMessage,
+            settings.announcementCooldownMinutes,
+            settings.auditChannelId,
+            settings.mentionRulesSeeded ? 1 : 0
+        );
+    }
+}
+
+function settingsFromRow(row: GuildSettingsRow): GuildSettings {
+    return {
+        guildId: row.guild_id,
+        modChannelId: row.mod_channel_id,
+        logChannelId: row.log_channel_id,
+        errorChannelId: row.error_channel_id,
+        vanityCode: row.vanity_code,
+        ownerId: row.owner_id,
+        announcementChannelId: row.announcement_channel_id,
+        announcementRoleId: row.announcement_role_id,
+        announcementMessage: row.announcement_message,
+        announcementCooldownMinutes: row.announcement_cooldown_minutes,
+        auditChannelId: row.audit_channel_id,
+        mentionRulesSeeded: row.mention_rules_seeded === 1
+    };
+}
@@ -0,0 +1,126 @@
+import { Statement } from 'better-sqlite3';
+import { BotDatabase } from './database';
+import {
+    DEFAULT_DECAY_DAYS,
+    DEFAULT_ESCALATION_STEPS,
+    EscalationSettings,
+    Infraction,
+    InfractionRepository
+} from './infraction-repository';
+
+interface InfractionRow {
+    id: number;
+    guild_id: string;
+    user_id: string;
+    rule_name: string;
+    message_url: string | null;
+    content: string;
+    created_at: string;
+    pardoned_at: string | null;
+    pardoned_by: string | null;
+}
+
+interface SettingsRow {
+    guild_id: string;
+    steps: string;
+    decay_days: number;
+}
+
+const INFRACTION_COLUMNS = 'id, guild_id, user_id, rule_name, message_url, content, created_at, pardoned_at, pardoned_by';
+
+export class SqliteInfractionRepository implements InfractionRepository {
+    private insertInfraction: Statement<[string, string, string, string | null, string, string]>;
+    private selectInfraction: Statement<[number | bigint], InfractionRow>;
+    private selectInfractions: Statement<[string, string], InfractionRow>;
+    private selectActive: Statement<[string, string, string], InfractionRow>;
+    private pardonAll: Statement<[string, string, string, string]>;
+    private pardonOne: Statement<[string, string, string, string, number]>;
+    private selectSettings: Statement<[string], SettingsRow>;
+    private upsertSettings: Statement<[string, string, number]>;
+
+    constructor(db: BotDatabase) {
+        this.insertInfraction = db.prepare(`
+            INSERT INTO infractions (guild_id, user_id, rule_name, message_url, content, created_at)
+            VALUES (?, ?, ?, ?, ?, ?)
+        `);
+        this.selectInfraction = db.prepare(`SELECT ${INFRACTION_COLUMNS} FROM infractions WHERE id = ?`);
+        this.selectInfractions = db.prepare(`
+            SELECT ${INFRACTION_COLUMNS} FROM infractions
+            WHERE guild_id = ? AND user_id = ?
+            ORDER BY created_at DESC, id DESC
+        `);
+        this.selectActive = db.prepare(`
+            SELECT ${INFRACTION_COLUMNS} FROM infractions
+            WHERE guild_id = ? AND user_id = ? AND pardoned_at IS NULL AND created_at > ?
+            ORDER BY created_at DESC, id DESC
+        `);
+        this.pardonAll = db.prepare(`
+            UPDATE infractions SET pardoned_at = ?, pardoned_by = ?
+            WHERE guild_id = ? AND user_id = ? AND pardoned_at IS NULL
+        `);
+        this.pardonOne = db.prepare(`
+            UPDATE infractions SET pardoned_at = ?, pardoned_by = ?
+            WHERE guild_id = ? AND user_id = ? AND id = ? AND pardoned_at IS NULL
+        `);
+        this.selectSettings = db.prepare('SELECT guild_id, steps, decay_days FROM infraction_settings WHERE guild_id = ?');
+        this.upsertSettings = db.prepare(`
+            INSERT INTO infraction_settings (guild_id, steps, decay_days) VALUES (?, ?, ?)
+            ON CONFLICT(guild_id) DO UPDATE SET steps = excluded.steps, decay_days = excluded.decay_days
+        `);
+    }
+
+    async addInfraction(infraction: Infraction): Promise<Infraction> {
+        const result = this.insertInfraction.run(
+            infraction.guildId,
+            infraction.userId,
+            infraction.ruleName,
+            infraction.messageUrl,
+            infraction.content,
+            infraction.createdAt.toISOString()
+        );
+        return infractionFromRow(this.selectInfraction.get(result.lastInsertRowid)!);
+    }
+
+    async getInfractions(guildId: string, userId: string): Promise<Infraction[]> {
+        return this.selectInfractions.all(guildId, userId).map(infractionFromRow);
+    }
+
+    async getActiveInfractions(guildId: string, userId: string, since: Date): Promise<Infraction[]> {
+        return this.selectActive.all(guildId, userId, since.toISOString()).map(infractionFromRow);
+    }
+
+    async pardonInfractions(guildId: string, userId: string, pardonedBy: string, infractionId?: number): Promise<number> {
+        const now = new Date().toISOString();
+        const result = infractionId === undefined
+            ? this.pardonAll.run(now, pardonedBy, guildId, userId)
+            : this.pardonOne.run(now, pardonedBy, guildId, userId, infractionId);
+        return result.changes;
+    }
+
+    async getEscalation(guildId: string): Promise<EscalationSettings> {
+        const row = this.selectSettings.get(guildId);
+        if (!row) {
+            return { guildId, steps: DEFAULT_ESCALATION_STEPS, decayDays: DEFAULT_DECAY_DAYS };
+        }
+        return { guildId, steps: JSON.parse(row.steps), decayDays: row.decay_days };
+    }
+
+    async saveEscalation(settings: EscalationSettings): Promise<void> {
+        const steps = [...settings.steps].sort((a, b) => a.strikes - b.strikes);
+        this.upsertSettings.run(settings.guildId, JSON.stringify(steps), settings.decayDays);
+    }
+}
+
+function infractionFromRow(row: InfractionRow): Infraction {
+    return {
+        id: row.id,
+        guildId: row.guild_id,
+        userId: row.user_id,
+        ruleName: row.rule_name,
+        messageUrl: row.message_url,
+        content: row.content,
+        createdAt: new Date(row.created_at),
+        pardonedAt: row.pardoned_at ? new Date(row.pardoned_at) : null,
+        pardonedBy: row.pardoned_by
+    };
+}
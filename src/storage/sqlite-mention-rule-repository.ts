@@ -0,0 +1,96 @@
+import { Statement } from 'better-sqlite3';
+import { BotDatabase } from './database';
+import { MentionAction, MentionRule, MentionRuleRepository } from './mention-rule-repository';
+
+interface MentionRuleRow {
+    id: number;
+    guild_id: string;
+    name: string;
+    protected_roles: string;
+    protected_users: string;
+    exempt_roles: string;
+    allowed_channels: string;
+    action: MentionAction;
+    warning_text: string;
+    reply_warning_text: string;
+    warning_image: string | null;
+}
+
+type MentionRuleParams = [string, string, string, string, string, string, MentionAction, string, string, string | null];
+
+const RULE_COLUMNS = `
+    id, guild_id, name, protected_roles, protected_users, exempt_roles, allowed_channels, action,
+    warning_text, reply_warning_text, warning_image
+`;
+
+export class SqliteMentionRuleRepository implements MentionRuleRepository {
+    private selectRules: Statement<[string], MentionRuleRow>;
+    private selectRule: Statement<[string, string], MentionRuleRow>;
+    private upsertRule: Statement<MentionRuleParams>;
+    private deleteRuleRow: Statement<[string, string]>;
+
+    constructor(db: BotDatabase) {
+        this.selectRules = db.prepare(`SELECT ${RULE_COLUMNS} FROM mention_rules WHERE guild_id = ? ORDER BY name`);
+        this.selectRule = db.prepare(`SELECT ${RULE_COLUMNS} FROM mention_rules WHERE guild_id = ? AND name = ?`);
+        this.upsertRule = db.prepare(`
+            INSERT INTO mention_rules (guild_id, name, protected_roles, protected_users, exempt_roles, allowed_channels,
+                action, warning_text, reply_warning_text, warning_image)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(guild_id, name) DO UPDATE SET
+                protected_roles = excluded.protected_roles,
+                protected_users = excluded.protected_users,
+                exempt_roles = excluded.exempt_roles,
+                allowed_channels = excluded.allowed_channels,
+                action = excluded.action,
+                warning_text = excluded.warning_text,
+                reply_warning_text = excluded.reply_warning_text,
+                warning_image = excluded.warning_image
+        `);
+        this.deleteRuleRow = db.prepare('DELETE FROM mention_rules WHERE guild_id = ? AND name = ?');
+    }
+
+    async getRules(guildId: string): Promise<MentionRule[]> {
+        return this.selectRules.all(guildId).map(ruleFromRow);
+    }
+
+    async getRule(guildId: string, name: string): Promise<MentionRule | null> {
+        const row = this.selectRule.get(guildId, name);
+        return row ? ruleFromRow(row) : null;
+    }
+
+    async saveRule(rule: MentionRule): Promise<MentionRule> {
+        this.upsertRule.run(
+            rule.guildId,
+            rule.name,
+            JSON.stringify(rule.protectedRoles),
+            JSON.stringify(rule.protectedUsers),
+            JSON.stringify(rule.exemptRoles),
+            JSON.stringify(rule.allowedChannels),
+            rule.action,
+            rule.warningText,
+            rule.replyWarningText,
+            rule.warningImage
+        );
+        return ruleFromRow(this.selectRule.get(rule.guildId, rule.name)!);
+    }
+
+    async deleteRule(guildId: string, name: string): Promise<boolean> {
+        return this.deleteRuleRow.run(guildId, name).changes > 0;
+    }
+}
+
+function ruleFromRow(row: MentionRuleRow): MentionRule {
+    return {
+        id: row.id,
+        guildId: row.guild_id,
+        name: row.name,
+        protectedRoles: JSON.parse(row.protected_roles),
+        protectedUsers: JSON.parse(row.protected_users),
+        exemptRoles: JSON.parse(row.exempt_roles),
+        allowedChannels: JSON.parse(row.allowed_channels),
+        action: row.action,
+        warningText: row.warning_text,
+        replyWarningText: row.reply_warning_text,
+        warningImage: row.warning_image
+    };
+}
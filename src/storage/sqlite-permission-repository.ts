@@ -0,0 +1,43 @@
+import { Statement } from 'better-sqlite3';
+import { BotDatabase } from './database';
+import { PermissionLevel, PermissionRepository } from './permission-repository';
+
+export class SqlitePermissionRepository implements PermissionRepository {
+    private selectLevels: Statement<[string], { command: string, level: PermissionLevel }>;
+    private upsertLevel: Statement<[string, string, PermissionLevel]>;
+    private selectEditors: Statement<[string], { user_name: string }>;
+    private insertEditor: Statement<[string, string]>;
+    private deleteEditor: Statement<[string, string]>;
+
+    constructor(db: BotDatabase) {
+        this.selectLevels = db.prepare('SELECT command, level FROM command_permissions WHERE channel = ?');
+        this.upsertLevel = db.prepare(`
+            INSERT INTO command_permissions (channel, command, level) VALUES (?, ?, ?)
+            ON CONFLICT(channel, command) DO UPDATE SET level = excluded.level
+        `);
+        this.selectEditors = db.prepare('SELECT user_name FROM command_editors WHERE channel = ? ORDER BY user_name');
+        this.insertEditor = db.prepare('INSERT OR IGNORE INTO command_editors (channel, user_name) VALUES (?, ?)');
+        this.deleteEditor = db.prepare('DELETE FROM command_editors WHERE channel = ? AND user_name = ?');
+    }
+
+    async getLevels(channel: string): Promise<Map<string, PermissionLevel>> {
+        const rows = this.selectLevels.all(channel.toLowerCase());
+        return new Map(rows.map(({ command, level }) => [command, level]));
+    }
+
+    async setLevel(channel: string, command: string, level: PermissionLevel): Promise<void> {
+        this.upsertLevel.run(channel.toLowerCase(), command.toLowerCase(), level);
+    }
+
+    async getEditors(channel: string): Promise<string[]> {
+        return this.selectEditors.all(channel.toLowerCase()).map(row => row.user_name);
+    }
+
+    async addEditor(channel: string, userName: string): Promise<void> {
+        this.insertEditor.run(channel.toLowerCase(), userName.toLowerCase());
+    }
+
+    async removeEditor(channel: string, userName: string): Promise<boolean> {
+        return this.deleteEditor.run(channel.toLowerCase(), userName.toLowerCase()).changes > 0;
+    }
+}
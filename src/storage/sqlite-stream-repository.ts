@@ -0,0 +1,348 @@
+import { Statement } from 'better-sqlite3';
+import { BotDatabase } from './database';
+import { StreamRepository, TagChanges, TagEdit, TagEditAction } from './stream-repository';
+import { Stream, StreamTag } from '../stream';
+
+interface StreamRow {
+    id: string;
+    start_time: string;
+    end_time: string | null;
+    delay: number;
+    vod_delay: number;
+}
+
+interface TagRow {
+    id: number;
+    stream_id: string;
+    timestamp: string;
+    relative_time: string;
+    relative_timestamp: number;
+    moderator: string;
+    merged_moderators: string;
+    message: string;
+    category: string | null;
+    hashtags: string;
+    deleted_at: string | null;
+}
+
+interface TagEditRow {
+    id: number;
+    tag_id: number;
+    edited_at: string;
+    editor: string;
+    action: TagEditAction;
+    previous_timestamp: string;
+    previous_relative_time: string;
+    previous_relative_timestamp: number;
+    previous_message: string;
+    previous_deleted_at: string | null;
+    previous_category: string | null;
+    previous_hashtags: string;
+    previous_merged_moderators: string;
+    moderator: string;
+}
+
+const TAG_COLUMNS = `
+    tags.id, stream_id, timestamp, relative_time, relative_timestamp, moderators.name AS moderator, merged_moderators,
+    message, category, hashtags, deleted_at
+`;
+
+const TAG_EDIT_COLUMNS = `
+    tag_edits.id, tag_id, edited_at, editor, action, previous_timestamp, previous_relative_time,
+    previous_relative_timestamp, previous_message, previous_deleted_at, previous_category, previous_hashtags,
+    previous_merged_moderators, moderators.name AS moderator
+`;
+
+export class SqliteStreamRepository implements StreamRepository {
+    private db: BotDatabase;
+    private selectStream: Statement<[string], StreamRow>;
+    private selectStreamsBetween: Statement<[string, string], StreamRow>;
+    private selectUnfinishedStream: Statement<[string], StreamRow>;
+    private selectTags: Statement<[string], TagRow>;
+    private selectTag: Statement<[number], TagRow>;
+    private upsertStream: Statement<[string, string, string | null, number, number]>;
+    private upsertModerator: Statement<[string]>;
+    private selectModeratorId: Statement<[string], { id: number }>;
+    private insertTag: Statement<[string, string, string, number, number, string, string, string | null, string]>;
+    private updateTagRow: Statement<[string, string, number, string, string, string | null, string, string | null, number]>;
+    private insertTagEdit: Statement<[number, string, string, TagEditAction, string, string, number, string, string, string | null, string | null, string]>;
+    private selectTagEdits: Statement<[number], TagEditRow>;
+    private selectLastTagEdit: Statement<[number], TagEditRow>;
+    private selectLastStreamEdit: Statement<[string], TagEditRow>;
+    private deleteTagEdit: Statement<[number]>;
+    private upsertVod: Statement<[string, string]>;
+    private selectVod: Statement<[string], { stream_id: string }>;
+
+    constructor(db: BotDatabase) {
+        this.db = db;
+        this.selectStream = db.prepare('SELECT id, start_time, end_time, delay, vod_delay FROM streams WHERE id = ?');
+        this.selectStreamsBetween = db.prepare(`
+            SELECT id, start_time, end_time, delay, vod_delay FROM streams
+            WHERE start_time BETWEEN ? AND ?
+            ORDER BY start_time
+        `);
+        this.selectUnfinishedStream = db.prepare(`
+            SELECT id, start_time, end_time, delay, vod_delay FROM streams
+            WHERE end_time IS NULL AND start_time >= ?
+            ORDER BY start_time DESC LIMIT 1
+        `);
+        this.selectTags = db.prepare(`
+            SELECT ${TAG_COLUMNS}
+            FROM tags JOIN moderators ON moderators.id = tags.moderator_id
+            WHERE stream_id = ? AND deleted_at IS NULL
+            ORDER BY timestamp, tags.id
+        `);
+        this.selectTag = db.prepare(`
+            SELECT ${TAG_COLUMNS}
+            FROM tags JOIN moderators ON moderators.id = tags.moderator_id
+            WHERE tags.id = ?
+        `);
+        this.upsertStream = db.prepare(`
+            INSERT INTO streams (id, start_time, end_time, delay, vod_delay) VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT(id) DO UPDATE SET start_time = excluded.start_time, end_time = excluded.end_time,
+                delay = excluded.delay, vod_delay = excluded.vod_delay
+        `);
+        this.upsertModerator = db.prepare('INSERT INTO moderators (name) VALUES (?) ON CONFLICT(name) DO NOTHING');
+        this.selectModeratorId = db.prepare('SELECT id FROM moderators WHERE name = ?');
+        this.insertTag = db.prepare(`
+            INSERT INTO tags (stream_id, timestamp, relative_time, relative_timestamp, moderator_id, merged_moderators, message,
+                category, hashtags)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+        this.updateTagRow = db.prepare(`
+            UPDATE tags SET timestamp = ?, relative_time = ?, relative_timestamp = ?, merged_moderators = ?, message = ?,
+                category = ?, hashtags = ?, deleted_at = ?
+            WHERE id = ?
+        `);
+        this.insertTagEdit = db.prepare(`
+            INSERT INTO tag_edits (tag_id, edited_at, editor, action, previous_timestamp, previous_relative_time,
+                previous_relative_timestamp, previous_merged_moderators, previous_message, previous_deleted_at,
+                previous_category, previous_hashtags)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+        this.selectTagEdits = db.prepare(`
+            SELECT ${TAG_EDIT_COLUMNS}
+            FROM tag_edits
+            JOIN tags ON tags.id = tag_edits.tag_id
+            JOIN moderators ON moderators.id = tags.moderator_id
+            WHERE tag_id = ?
+            ORDER BY tag_edits.id
+        `);
+        this.selectLastTagEdit = db.prepare(`
+            SELECT ${TAG_EDIT_COLUMNS}
+            FROM tag_edits
+            JOIN tags ON tags.id = tag_edits.tag_id
+            JOIN moderators ON moderators.id = tags.moderator_id
+            WHERE tag_id = ?
+            ORDER BY tag_edits.id DESC LIMIT 1
+        `);
+        // Takes the stream ids as a JSON list
+        this.selectLastStreamEdit = db.prepare(`
+            SELECT ${TAG_EDIT_COLUMNS}
+            FROM tag_edits
+            JOIN tags ON tags.id = tag_edits.tag_id
+            JOIN moderators ON moderators.id = tags.moderator_id
+            WHERE stream_id IN (SELECT value FROM json_each(?))
+            ORDER BY tag_edits.id DESC LIMIT 1
+        `);
+        this.deleteTagEdit = db.prepare('DELETE FROM tag_edits WHERE id = ?');
+        // Only link VODs to streams we know about, the foreign key would reject it anyway
+        this.upsertVod = db.prepare(`
+            INSERT INTO vods (vod_id, stream_id) SELECT ?, id FROM streams WHERE id = ?
+            ON CONFLICT(vod_id) DO UPDATE SET stream_id = excluded.stream_id
+        `);
+        this.selectVod = db.prepare('SELECT stream_id FROM vods WHERE vod_id = ?');
+    }
+
+    async getStream(id: string): Promise<Stream | null> {
+        const row = this.selectStream.get(id);
+        return row ? this.streamFromRow(row) : null;
+    }
+
+    async findStreamsStartedBetween(from: Date, to: Date): Promise<Stream[]> {
+        return this.selectStreamsBetween.all(from.toISOString(), to.toISOString()).map(row => this.streamFromRow(row));
+    }
+
+    async findUnfinishedStream(since: Date): Promise<Stream | null> {
+        const row = this.selectUnfinishedStream.get(since.toISOString());
+        return row ? this.streamFromRow(row) : null;
+    }
+
+    async saveStream(stream: Stream): Promise<void> {
+        this.writeStream(stream);
+    }
+
+    async importStream(stream: Stream): Promise<void> {
+        this.db.transaction(() => {
+            this.writeStream(stream);
+            for (const tag of stream.tags) {
+                this.writeTag(stream.id, tag);
+            }
+        })();
+    }
+
+    async addTag(streamId: string, tag: StreamTag): Promise<StreamTag> {
+        const id = this.db.transaction(() => this.writeTag(streamId, tag))();
+        return { ...tag, id };
+    }
+
+    async updateTag(tagId: number, changes: TagChanges, editor: string): Promise<StreamTag | null> {
+        return this.db.transaction(() => {
+            const row = this.selectTag.get(tagId);
+            if (!row || row.deleted_at) {
+                return null;
+            }
+
+            const action: TagEditAction = changes.relativeTimestamp !== undefined && changes.message === undefined ?
+                'retime' :
+                'edit';
+            this.recordEdit(row, editor, action);
+
+            const updated: StreamTag = { ...tagFromRow(row), ...changes };
+            this.writeTagState(tagId, updated, null);
+            return updated;
+        })();
+    }
+
+    async deleteTag(tagId: number, editor: string): Promise<boolean> {
+        return this.db.transaction(() => {
+            const row = this.selectTag.get(tagId);
+            if (!row || row.deleted_at) {
+                return false;
+            }
+
+            this.recordEdit(row, editor, 'delete');
+            this.writeTagState(tagId, tagFromRow(row), new Date().toISOString());
+            return true;
+        })();
+    }
+
+    async revertTag(streamIds: string[], tagId?: number): Promise<StreamTag | null> {
+        return this.db.transaction(() => {
+            const edit = tagId === undefined ?
+                this.selectLastStreamEdit.get(JSON.stringify(streamIds)) :
+                this.selectLastTagEdit.get(tagId);
+            if (!edit) {
+                return null;
+            }
+
+            const restored = tagEditFromRow(edit);
+            this.writeTagState(restored.tagId, restored.previous, edit.previous_deleted_at);
+            this.deleteTagEdit.run(edit.id);
+            return restored.previous;
+        })();
+    }
+
+    async getTagHistory(tagId: number): Promise<TagEdit[]> {
+        return this.selectTagEdits.all(tagId).map(tagEditFromRow);
+    }
+
+    async linkVod(vodId: string, streamId: string): Promise<void> {
+        this.upsertVod.run(vodId, streamId);
+    }
+
+    async getStreamIdForVod(vodId: string): Promise<string | null> {
+        return this.selectVod.get(vodId)?.stream_id ?? null;
+    }
+
+    private streamFromRow(row: StreamRow): Stream {
+        const tags = this.selectTags.all(row.id).map(tagFromRow);
+        const stream = new Stream(row.id, new Date(row.start_time), row.delay, row.vod_delay, tags);
+        stream.endTime = row.end_time ? new Date(row.end_time) : null;
+        return stream;
+    }
+
+    private writeStream(stream: Stream) {
+        this.upsertStream.run(
+            stream.id,
+            new Date(stream.startTime).toISOString(),
+            stream.endTime ? new Date(stream.endTime).toISOString() : null,
+            stream.delay,
+            stream.vodDelay
+        );
+    }
+
+    private writeTag(streamId: string, tag: StreamTag): number {
+        this.upsertModerator.run(tag.moderator);
+        const moderator = this.selectModeratorId.get(tag.moderator)!;
+        const result = this.insertTag.run(
+            streamId,
+            new Date(tag.timestamp).toISOString(),
+            tag.relativeTime,
+            tag.relativeTimestamp,
+            moderator.id,
+            JSON.stringify(tag.mergedModerators),
+            tag.message,
+            tag.category,
+            JSON.stringify(tag.hashtags)
+        );
+        return Number(result.lastInsertRowid);
+    }
+
+    private writeTagState(tagId: number, tag: StreamTag, deletedAt: string | null) {
+        this.updateTagRow.run(
+            new Date(tag.timestamp).toISOString(),
+            tag.relativeTime,
+            tag.relativeTimestamp,
+            JSON.stringify(tag.mergedModerators),
+            tag.message,
+            tag.category,
+            JSON.stringify(tag.hashtags),
+            deletedAt,
+            tagId
+        );
+    }
+
+    private recordEdit(row: TagRow, editor: string, action: TagEditAction) {
+        this.insertTagEdit.run(
+            row.id,
+            new Date().toISOString(),
+            editor,
+            action,
+            row.timestamp,
+            row.relative_time,
+            row.relative_timestamp,
+            row.merged_moderators,
+            row.message,
+            row.deleted_at,
+            row.category,
+            row.hashtags
+        );
+    }
+}
+
+function tagFromRow(row: TagRow): StreamTag {
+    return {
+        id: row.id,
+        timestamp: new Date(row.timestamp),
+        relativeTime: row.relative_time,
+        relativeTimestamp: row.relative_timestamp,
+        moderator: row.moderator,
+        mergedModerators: JSON.parse(row.merged_moderators),
+        message: row.message,
+        category: row.category,
+        hashtags: JSON.parse(row.hashtags)
+    };
+}
+
+function tagEditFromRow(row: TagEditRow): TagEdit {
+    return {
+        id: row.id,
+        tagId: row.tag_id,
+        editedAt: new Date(row.edited_at),
+        editor: row.editor,
+        action: row.action,
+        previous: {
+            id: row.tag_id,
+            timestamp: new Date(row.previous_timestamp),
+            relativeTime: row.previous_relative_time,
+            relativeTimestamp: row.previous_relative_timestamp,
+            moderator: row.moderator,
+            mergedModerators: JSON.parse(row.previous_merged_moderators),
+            message: row.previous_message,
+            category: row.previous_category,
+            hashtags: JSON.parse(row.previous_hashtags)
+        },
+        previousDeletedAt: row.previous_deleted_at ? new Date(row.previous_deleted_at) : null
+    };
+}
@@ -0,0 +1,55 @@
+import { Statement } from 'better-sqlite3';
+import { BotDatabase } from './database';
+import { DEFAULT_TAG_ALIASES, TagAlias, TagAliasRepository } from './tag-alias-repository';
+
+export class SqliteTagAliasRepository implements TagAliasRepository {
+    private db: BotDatabase;
+    private selectAliases: Statement<[string], TagAlias>;
+    private upsertAlias: Statement<[string, string, string]>;
+    private deleteAlias: Statement<[string, string]>;
+    private selectCustomized: Statement<[string], { channel: string }>;
+    private insertCustomized: Statement<[string]>;
+
+    constructor(db: BotDatabase) {
+        this.db = db;
+        this.selectAliases = db.prepare('SELECT alias, category FROM tag_aliases WHERE channel = ? ORDER BY alias');
+        this.upsertAlias = db.prepare(`
+            INSERT INTO tag_aliases (channel, alias, category) VALUES (?, ?, ?)
+            ON CONFLICT(channel, alias) DO UPDATE SET category = excluded.category
+        `);
+        this.deleteAlias = db.prepare('DELETE FROM tag_aliases WHERE channel = ? AND alias = ?');
+        this.selectCustomized = db.prepare('SELECT channel FROM tag_alias_channels WHERE channel = ?');
+        this.insertCustomized = db.prepare('INSERT INTO tag_alias_channels (channel) VALUES (?)');
+    }
+
+    async getAliases(channel: string): Promise<TagAlias[]> {
+        if (!this.selectCustomized.get(channel.toLowerCase())) {
+            return DEFAULT_TAG_ALIASES;
+        }
+        return this.selectAliases.all(channel.toLowerCase());
+    }
+
+    async setAlias(channel: string, alias: string, category: string): Promise<void> {
+        this.db.transaction(() => {
+            this.storeDefaultsIfMissing(channel);
+            this.upsertAlias.run(channel.toLowerCase(), alias.toLowerCase(), category.toLowerCase());
+        })();
+    }
+
+    async removeAlias(channel: string, alias: string): Promise<boolean> {
+        return this.db.transaction(() => {
+            this.storeDefaultsIfMissing(channel);
+            return this.deleteAlias.run(channel.toLowerCase(), alias.toLowerCase()).changes > 0;
+        })();
+    }
+
+    // The first change to a channel turns the defaults into stored aliases so they can be edited too
+    private storeDefaultsIfMissing(channel: string) {
+        if (this.selectCustomized.get(channel.toLowerCase())) return;
+
+        this.insertCustomized.run(channel.toLowerCase());
+        for (const { alias, category } of DEFAULT_TAG_ALIASES) {
+            this.upsertAlias.run(channel.toLowerCase(), alias, category);
+        }
+    }
+}
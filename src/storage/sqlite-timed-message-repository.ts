@@ -0,0 +1,79 @@
+import { Statement } from 'better-sqlite3';
+import { BotDatabase } from './database';
+import { TimedMessage, TimedMessageRepository } from './timed-message-repository';
+
+interface TimedMessageRow {
+    id: number;
+    name: string;
+    message: string;
+    interval_minutes: number;
+    min_chat_lines: number;
+    enabled: number;
+    updated_by: string;
+    updated_at: string;
+}
+
+const TIMER_COLUMNS = 'id, name, message, interval_minutes, min_chat_lines, enabled, updated_by, updated_at';
+
+export class SqliteTimedMessageRepository implements TimedMessageRepository {
+    private selectTimers: Statement<[], TimedMessageRow>;
+    private selectTimer: Statement<[string], TimedMessageRow>;
+    private upsertTimer: Statement<[string, string, number, number, number, string, string]>;
+    private deleteTimerRow: Statement<[string]>;
+
+    constructor(db: BotDatabase) {
+        this.selectTimers = db.prepare(`SELECT ${TIMER_COLUMNS} FROM timed_messages ORDER BY name`);
+        this.selectTimer = db.prepare(`SELECT ${TIMER_COLUMNS} FROM timed_messages WHERE name = ?`);
+        this.upsertTimer = db.prepare(`
+            INSERT INTO timed_messages (name, message, interval_minutes, min_chat_lines, enabled, updated_by, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(name) DO UPDATE SET
+                message = excluded.message,
+                interval_minutes = excluded.interval_minutes,
+                min_chat_lines = excluded.min_chat_lines,
+                enabled = excluded.enabled,
+                updated_by = excluded.updated_by,
+                updated_at = excluded.updated_at
+        `);
+        this.deleteTimerRow = db.prepare('DELETE FROM timed_messages WHERE name = ?');
+    }
+
+    async getTimers(): Promise<TimedMessage[]> {
+        return this.selectTimers.all().map(timerFromRow);
+    }
+
+    async getTimer(name: string): Promise<TimedMessage | null> {
+        const row = this.selectTimer.get(name.toLowerCase());
+        return row ? timerFromRow(row) : null;
+    }
+
+    async saveTimer(timer: TimedMessage): Promise<TimedMessage> {
+        this.upsertTimer.run(
+            timer.name.toLowerCase(),
+            timer.message,
+            timer.intervalMinutes,
+            timer.minChatLines,
+            timer.enabled ? 1 : 0,
+            timer.updatedBy,
+            timer.updatedAt.toISOString()
+        );
+        return timerFromRow(this.selectTimer.get(timer.name.toLowerCase())!);
+    }
+
+    async deleteTimer(name: string): Promise<boolean> {
+        return this.deleteTimerRow.run(name.toLowerCase()).changes > 0;
+    }
+}
+
+function timerFromRow(row: TimedMessageRow): TimedMessage {
+    return {
+        id: row.id,
+        name: row.name,
+        message: row.message,
+        intervalMinutes: row.interval_minutes,
+        minChatLines: row.min_chat_lines,
+        enabled: row.enabled === 1,
+        updatedBy: row.updated_by,
+        updatedAt: new Date(row.updated_at)
+    };
+}
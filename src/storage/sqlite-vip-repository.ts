@@ -0,0 +1,100 @@
+import { Statement } from 'better-sqlite3';
+import { BotDatabase } from './database';
+import { VipGrant, VipRepository } from './vip-repository';
+
+interface VipGrantRow {
+    id: number;
+    channel: string;
+    user_id: string;
+    user_name: string;
+    granted_by: string;
+    granted_at: string;
+    expires_at: string | null;
+    removed_at: string | null;
+    removed_by: string | null;
+}
+
+const GRANT_COLUMNS = 'id, channel, user_id, user_name, granted_by, granted_at, expires_at, removed_at, removed_by';
+
+export class SqliteVipRepository implements VipRepository {
+    private insertGrant: Statement<[string, string, string, string, string, string | null]>;
+    private selectGrant: Statement<[number | bigint], VipGrantRow>;
+    private selectActive: Statement<[string], VipGrantRow>;
+    private selectActiveForUser: Statement<[string, string], VipGrantRow>;
+    private selectExpired: Statement<[string], VipGrantRow>;
+    private updateExpiry: Statement<[string | null, number]>;
+    private updateRemoved: Statement<[string, string, number]>;
+
+    constructor(db: BotDatabase) {
+        this.insertGrant = db.prepare(`
+            INSERT INTO vip_grants (channel, user_id, user_name, granted_by, granted_at, expires_at)
+            VALUES (?, ?, ?, ?, ?, ?)
+        `);
+        this.selectGrant = db.prepare(`SELECT ${GRANT_COLUMNS} FROM vip_grants WHERE id = ?`);
+        // Permanent VIPs go last
+        this.selectActive = db.prepare(`
+            SELECT ${GRANT_COLUMNS} FROM vip_grants
+            WHERE channel = ? AND removed_at IS NULL
+            ORDER BY expires_at IS NULL, expires_at, user_name
+        `);
+        this.selectActiveForUser = db.prepare(`
+            SELECT ${GRANT_COLUMNS} FROM vip_grants
+            WHERE channel = ? AND user_id = ? AND removed_at IS NULL
+            ORDER BY id DESC LIMIT 1
+        `);
+        this.selectExpired = db.prepare(`
+            SELECT ${GRANT_COLUMNS} FROM vip_grants
+            WHERE removed_at IS NULL AND expires_at IS NOT NULL AND expires_at <= ?
+            ORDER BY expires_at
+        `);
+        this.updateExpiry = db.prepare('UPDATE vip_grants SET expires_at = ? WHERE id = ?');
+        this.updateRemoved = db.prepare('UPDATE vip_grants SET removed_by = ?, removed_at = ? WHERE id = ?');
+    }
+
+    async addGrant(grant: VipGrant): Promise<VipGrant> {
+        const result = this.insertGrant.run(
+            grant.channel.toLowerCase(),
+            grant.userId,
+            grant.userName,
+            grant.grantedBy,
+            grant.grantedAt.toISOString(),
+            grant.expiresAt?.toISOString() ?? null
+        );
+        return grantFromRow(this.selectGrant.get(result.lastInsertRowid)!);
+    }
+
+    async getActiveGrants(channel: string): Promise<VipGrant[]> {
+        return this.selectActive.all(channel.toLowerCase()).map(grantFromRow);
+    }
+
+    async getActiveGrant(channel: string, userId: string): Promise<VipGrant | null> {
+        const row = this.selectActiveForUser.get(channel.toLowerCase(), userId);
+        return row ? grantFromRow(row) : null;
+    }
+
+    async getExpiredGrants(now: Date): Promise<VipGrant[]> {
+        return this.selectExpired.all(now.toISOString()).map(grantFromRow);
+    }
+
+    async setExpiry(grantId: number, expiresAt: Date | null): Promise<void> {
+        this.updateExpiry.run(expiresAt?.toISOString() ?? null, grantId);
+    }
+
+    async markRemoved(grantId: number, removedBy: string, removedAt: Date): Promise<void> {
+        this.updateRemoved.run(removedBy, removedAt.toISOString(), grantId);
+    }
+}
+
+function grantFromRow(row: VipGrantRow): VipGrant {
+    return {
+        id: row.id,
+        channel: row.channel,
+        userId: row.user_id,
+        userName: row.user_name,
+        grantedBy: row.granted_by,
+        grantedAt: new Date(row.granted_at),
+        expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+        removedAt: row.removed_at ? new Date(row.removed_at) : null,
+        removedBy: row.removed_by
+    };
+}
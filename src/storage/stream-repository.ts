@@ -0,0 +1,45 @@
+import { Stream, StreamTag } from "../stream";
+
+export type TagChanges = Partial<Pick<StreamTag, 'timestamp' | 'relativeTime' | 'relativeTimestamp' | 'message' | 'category' | 'hashtags' | 'mergedModerators'>>;
+
+export type TagEditAction = 'edit' | 'retime' | 'delete';
+
+export interface TagEdit {
+    id: number;
+    tagId: number;
+    editedAt: Date;
+    editor: string;
+    action: TagEditAction;
+    previous: StreamTag;
+    previousDeletedAt: Date | null;
+}
+
+export interface StreamRepository {
+    // Deleted tags are not included in the returned stream
+    getStream(id: string): Promise<Stream | null>;
+
+    // Creates the stream or updates its start and end time and delays. Tags are left untouched.
+    saveStream(stream: Stream): Promise<void>;
+
+    findStreamsStartedBetween(from: Date, to: Date): Promise<Stream[]>;
+
+    // The latest stream started after `since` that has no end time, ie. the one that was live when the bot stopped
+    findUnfinishedStream(since: Date): Promise<Stream | null>;
+
+    // Stores the stream together with all of its tags in a single transaction.
+    importStream(stream: Stream): Promise<void>;
+
+    addTag(streamId: string, tag: StreamTag): Promise<StreamTag>;
+
+    // Every change keeps the previous version of the tag in its history so it can be reverted
+    updateTag(tagId: number, changes: TagChanges, editor: string): Promise<StreamTag | null>;
+    deleteTag(tagId: number, editor: string): Promise<boolean>;
+
+    // Undoes the latest change of the tag, or of any tag in the streams when no tag is given.
+    // Returns the restored tag, or null when there was nothing to revert.
+    revertTag(streamIds: string[], tagId?: number): Promise<StreamTag | null>;
+    getTagHistory(tagId: number): Promise<TagEdit[]>;
+
+    linkVod(vodId: string, streamId: string): Promise<void>;
+    getStreamIdForVod(vodId: string): Promise<string | null>;
+}
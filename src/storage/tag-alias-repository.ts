@@ -0,0 +1,18 @@
+export interface TagAlias {
+    alias: string;
+    category: string;
+}
+
+// Chat commands such as !clip that create a tag with a fixed category
+export interface TagAliasRepository {
+    // Channels that never changed their aliases get the default ones
+    getAliases(channel: string): Promise<TagAlias[]>;
+    setAlias(channel: string, alias: string, category: string): Promise<void>;
+    removeAlias(channel: string, alias: string): Promise<boolean>;
+}
+
+export const DEFAULT_TAG_ALIASES: TagAlias[] = [
+    { alias: 'clip', category: 'clip' },
+    { alias: 'highlight', category: 'highlight' },
+    { alias: 'fail', category: 'fail' }
+];
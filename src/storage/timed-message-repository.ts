@@ -0,0 +1,23 @@
+// A message the bot posts in the Twitch chat every so often while the stream is live
+export interface TimedMessage {
+    id?: number;
+    name: string;
+    message: string;
+    intervalMinutes: number;
+    // Chat messages needed since the last post, so an idle chat isn't filled with announcements
+    minChatLines: number;
+    enabled: boolean;
+    updatedBy: string;
+    updatedAt: Date;
+}
+
+export const DEFAULT_TIMER_INTERVAL_MINUTES = 15;
+export const DEFAULT_TIMER_MIN_CHAT_LINES = 10;
+
+export interface TimedMessageRepository {
+    getTimers(): Promise<TimedMessage[]>;
+    getTimer(name: string): Promise<TimedMessage | null>;
+    // Creates the timer or replaces the one with the same name
+    saveTimer(timer: TimedMessage): Promise<TimedMessage>;
+    deleteTimer(name: string): Promise<boolean>;
+}
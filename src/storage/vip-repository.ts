@@ -0,0 +1,24 @@
+// A VIP given through the bot, kept after it is removed
+export interface VipGrant {
+    id?: number;
+    channel: string;
+    userId: string;
+    userName: string;
+    grantedBy: string;
+    grantedAt: Date;
+    // Null for VIPs without expiry
+    expiresAt: Date | null;
+    removedAt: Date | null;
+    removedBy: string | null;
+}
+
+export interface VipRepository {
+    addGrant(grant: VipGrant): Promise<VipGrant>;
+    // VIPs of the channel that were not removed yet, the ones expiring first go first
+    getActiveGrants(channel: string): Promise<VipGrant[]>;
+    getActiveGrant(channel: string, userId: string): Promise<VipGrant | null>;
+    // Active VIPs of every channel whose expiry has passed
+    getExpiredGrants(now: Date): Promise<VipGrant[]>;
+    setExpiry(grantId: number, expiresAt: Date | null): Promise<void>;
+    markRemoved(grantId: number, removedBy: string, removedAt: Date): Promise<void>;
+}
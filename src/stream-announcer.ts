@@ -0,0 +1,126 @@
+import { Client, Colors, EmbedBuilder, TextChannel } from "discord.js";
+import { AnnouncementRepository } from "./storage/announcement-repository";
+import { GuildSettings, GuildSettingsRepository } from "./storage/guild-settings-repository";
+import { formatRelativeTime } from "./stream";
+import { logger } from "./logger";
+
+export interface LiveStreamInfo {
+    streamId: string;
+    broadcasterName: string;
+    broadcasterDisplayName: string;
+    title: string;
+    gameName: string;
+    thumbnailUrl: string | null;
+    startDate: Date;
+}
+
+type ErrorReporter = (error: unknown, guildId: string) => void;
+
+// Posts a go-live announcement in every guild that configured a channel for them
+// and edits it when the stream ends. A failing guild does not stop the rest.
+// A stream is only announced once per guild, even when EventSub sends the online event again after a reconnection.
+export class StreamAnnouncer {
+    constructor(
+        private client: Client,
+        private settingsRepository: GuildSettingsRepository,
+        private announcementRepository: AnnouncementRepository,
+        private reportError: ErrorReporter
+    ) { }
+
+    async announceOnline(info: LiveStreamInfo) {
+        const allSettings = await this.settingsRepository.getAllSettings();
+
+        for (const settings of allSettings) {
+            if (!settings.announcementChannelId) continue;
+
+            try {
+                await this.announceInGuild(info, settings);
+            } catch (error) {
+                this.reportError(error, settings.guildId);
+            }
+        }
+    }
+
+    async announceOffline(streamId: string, startTime: Date, endTime: Date) {
+        const announcements = await this.announcementRepository.getOpenAnnouncements(streamId);
+
+        for (const announcement of announcements) {
+            try {
+                const channel = await this.client.channels.fetch(announcement.channelId) as TextChannel;
+                const message = await channel.messages.fetch(announcement.messageId);
+
+                const duration = formatRelativeTime(endTime.getTime() - startTime.getTime());
+                const embed = EmbedBuilder.from(message.embeds[0])
+                    .setColor(Colors.Grey)
+                    .setDescription('El stream terminó')
+                    .setImage(null)
+                    .addFields({ name: 'Duración', value: duration, inline: true })
+                    .setTimestamp(endTime)
+
+                // Editing without the ping keeps the role from being mentioned again
+                await message.edit({ content: message.content.replace(/<@&\d+>\s*/g, ''), embeds: [embed] });
+                await this.announcementRepository.markEnded(announcement.id!, endTime);
+            } catch (error) {
+                this.reportError(error, announcement.guildId);
+            }
+        }
+    }
+
+    private async announceInGuild(info: LiveStreamInfo, settings: GuildSettings) {
+        if (await this.announcementRepository.getLastStreamId(settings.guildId) === info.streamId) {
+            logger.info('The stream was already announced', { streamId: info.streamId, guildId: settings.guildId });
+            return;
+        }
+
+        const channel = await this.client.channels.fetch(settings.announcementChannelId!) as TextChannel;
+
+        const ping = settings.announcementRoleId !== null && !await this.isInCooldown(settings);
+        const text = settings.announcementMessage ?? `¡${info.broadcasterDisplayName} está en directo!`;
+        const content = ping ? `<@&${settings.announcementRoleId}> ${text}` : text;
+
+        const message = await channel.send({
+            content,
+            embeds: [buildLiveEmbed(info)],
+            allowedMentions: { roles: ping ? [settings.announcementRoleId!] : [] }
+        });
+
+        await this.announcementRepository.addAnnouncement({
+            streamId: info.streamId,
+            guildId: settings.guildId,
+            channelId: channel.id,
+            messageId: message.id,
+            pinged: ping,
+            createdAt: new Date(),
+            endedAt: null
+        });
+        logger.info('Announced the stream', { streamId: info.streamId, guildId: settings.guildId, pinged: ping });
+    }
+
+    private async isInCooldown(settings: GuildSettings): Promise<boolean> {
+        const lastPing = await this.announcementRepository.getLastPing(settings.guildId);
+        if (!lastPing) return false;
+        return Date.now() - lastPing.getTime() < settings.announcementCooldownMinutes * 60 * 1000;
+    }
+}
+
+function buildLiveEmbed(info: LiveStreamInfo): EmbedBuilder {
+    const url = `https://www.twitch.tv/${info.broadcasterName}`;
+
+    const embed = new EmbedBuilder()
+        .setColor(Colors.Purple)
+        .setAuthor({ name: info.broadcasterDisplayName, url })
+        .setTitle(info.title || 'Stream en directo')
+        .setURL(url)
+        .setDescription('En directo')
+        .setTimestamp(info.startDate)
+
+    if (info.gameName) {
+        embed.addFields({ name: 'Categoría', value: info.gameName, inline: true });
+    }
+    if (info.thumbnailUrl) {
+        // Discord caches images by url, the start time keeps an old preview from showing up
+        embed.setImage(`${info.thumbnailUrl}?t=${info.startDate.getTime()}`);
+    }
+
+    return embed;
+}
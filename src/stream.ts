@@ -0,0 +1,143 @@
+export interface StreamTag {
+    id?: number;
+    timestamp: Date;
+    relativeTime: string;
+    relativeTimestamp: number;
+    moderator: string;
+    // Who tagged the same moment after the author, their tags were merged into this one
+    mergedModerators: string[];
+    message: string;
+    category: string | null;
+    hashtags: string[];
+}
+
+export interface TagFilter {
+    category?: string | null;
+    moderator?: string | null;
+}
+
+export class Stream {
+    id: string;
+    startTime: Date;
+    // Seconds the chat is behind the stream, tags are created this late
+    delay: number;
+    // Extra seconds to correct the tags against the vod after the fact
+    vodDelay: number;
+    // Set when the stream goes offline
+    endTime: Date | null = null;
+    tags: StreamTag[];
+
+    constructor(id: string, startTime: Date, delay: number = 10, vodDelay: number = 0, tags: StreamTag[] = []) {
+        this.id = id;
+        this.startTime = startTime;
+        this.delay = delay;
+        this.vodDelay = vodDelay;
+        this.tags = tags
+    }
+}
+
+export function getTimeDifference(date1: Date, date2: Date, delay: number): number {
+    return (new Date(date1).getTime()) - new Date(date2).getTime() - (delay * 1000);
+}
+
+// Total seconds between the moment a tag is written and the moment it points to in the vod
+export function getStreamOffset(stream: Stream): number {
+    return stream.delay + stream.vodDelay;
+}
+
+// Relative times are recalculated from the raw timestamp so a corrected delay applies to every tag
+export function recalculateTag(tag: StreamTag, startTime: Date, offsetSeconds: number): StreamTag {
+    const relativeTimestamp = getTimeDifference(tag.timestamp, startTime, offsetSeconds);
+    return { ...tag, relativeTimestamp, relativeTime: formatRelativeTime(relativeTimestamp) };
+}
+
+export function formatRelativeTime(timeDiffMs: number): string {
+    const hours = Math.floor(timeDiffMs / 3600000);
+    const minutes = Math.floor((timeDiffMs % 3600000) / 60000);
+    const seconds = Math.floor((timeDiffMs % 60000) / 1000);
+
+    // Format as 0h:0m:0s for twitch timestamp
+    const hoursStr = hours.toString()
+    const minutesStr = minutes.toString()
+    const secondsStr = seconds.toString()
+
+    return `${hoursStr}h${minutesStr}m${secondsStr}s`;
+}
+
+// Moves a tag by the given seconds, keeping the raw timestamp and the relative time in sync
+export function shiftTag(tag: StreamTag, seconds: number): Pick<StreamTag, 'timestamp' | 'relativeTime' | 'relativeTimestamp'> {
+    const relativeTimestamp = tag.relativeTimestamp + seconds * 1000;
+    return {
+        timestamp: new Date(new Date(tag.timestamp).getTime() + seconds * 1000),
+        relativeTime: formatRelativeTime(relativeTimestamp),
+        relativeTimestamp
+    };
+}
+
+// "#clip funny moment #lol" is stored as category "clip", message "funny moment #lol" and hashtags ["lol"].
+// A leading hashtag overrides the given category, other hashtags stay in the message.
+export function parseTagMessage(text: string, category: string | null = null): Pick<StreamTag, 'message' | 'category' | 'hashtags'> {
+    let message = text.trim();
+
+    const leading = message.match(/^#([\p{L}\p{N}_]+)\s*/u);
+    if (leading) {
+        category = leading[1].toLowerCase();
+        message = message.slice(leading[0].length);
+    }
+
+    const hashtags = [...message.matchAll(/(?:^|\s)#([\p{L}\p{N}_]+)/gu)].map(match => match[1].toLowerCase());
+
+    return {
+        message,
+        category,
+        hashtags: [...new Set(hashtags)]
+    };
+}
+
+// The most recent tag written less than `windowSeconds` before `timestamp`, ie. several mods tagging the same moment
+export function findMergeableTag(tags: StreamTag[], timestamp: Date, windowSeconds: number): StreamTag | null {
+    if (windowSeconds <= 0) return null;
+
+    const time = new Date(timestamp).getTime();
+    const candidates = tags.filter(tag => {
+        const difference = time - new Date(tag.timestamp).getTime();
+        return difference >= 0 && difference < windowSeconds * 1000;
+    });
+
+    return candidates.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0] ?? null;
+}
+
+// Appends the message of a duplicate tag to the existing one and lists who wrote it.
+// A repeated or empty message only adds the moderator, so every moderator who tagged the moment is listed.
+export function mergeTagMessage(tag: StreamTag, incoming: Pick<StreamTag, 'message' | 'category' | 'hashtags'>, moderator: string): Pick<StreamTag, 'message' | 'category' | 'hashtags' | 'mergedModerators'> {
+    const isRepeated = !incoming.message || tag.message.toLowerCase().includes(incoming.message.toLowerCase());
+
+    return {
+        message: isRepeated ? tag.message : `${tag.message} / ${incoming.message}`,
+        category: tag.category ?? incoming.category,
+        hashtags: [...new Set([...tag.hashtags, ...incoming.hashtags])],
+        mergedModerators: hasTagModerator(tag, moderator) ? tag.mergedModerators : [...tag.mergedModerators, moderator]
+    };
+}
+
+// The author or anyone whose tag was merged into it
+export function hasTagModerator(tag: StreamTag, moderator: string): boolean {
+    const name = moderator.toLowerCase();
+    return [tag.moderator, ...tag.mergedModerators].some(tagModerator => tagModerator.toLowerCase() === name);
+}
+
+// The message as shown to people, followed by who else tagged the moment
+export function formatTagMessage(tag: Pick<StreamTag, 'message' | 'mergedModerators'>): string {
+    return tag.mergedModerators.length > 0 ? `${tag.message} (${tag.mergedModerators.join(', ')})` : tag.message;
+}
+
+// Category matches either the category of the tag or one of its hashtags, moderator the author or a merged moderator
+export function filterTags(tags: StreamTag[], filter: TagFilter): StreamTag[] {
+    const category = filter.category?.replace(/^#/, '').trim().toLowerCase();
+    const moderator = filter.moderator?.replace(/^@/, '').trim().toLowerCase();
+
+    return tags.filter(tag =>
+        (!category || tag.category === category || tag.hashtags.includes(category)) &&
+        (!moderator || hasTagModerator(tag, moderator))
+    );
+}
@@ -0,0 +1,46 @@
+import { BotCommand, BotCommandContext } from '@twurple/easy-bot';
+import { TagAlias, TagAliasRepository } from './storage/tag-alias-repository';
+
+type TagAliasHandler = (category: string, params: string[], context: BotCommandContext) => void | Promise<void>;
+
+// Dispatches the per channel tag aliases such as !clip, which are only known at runtime.
+// Register it after the other commands so built-in commands always win over an alias with the same name.
+export class TagAliasCommand extends BotCommand {
+    private aliasesByChannel = new Map<string, TagAlias[]>();
+
+    constructor(private repository: TagAliasRepository, private handler: TagAliasHandler) {
+        super();
+    }
+
+    get name(): string {
+        return 'tag-alias';
+    }
+
+    get aliases(): string[] {
+        return [...this.aliasesByChannel.values()].flat().map(({ alias }) => alias);
+    }
+
+    async load(channel: string): Promise<TagAlias[]> {
+        const aliases = await this.repository.getAliases(channel);
+        this.aliasesByChannel.set(channel.toLowerCase(), aliases);
+        return aliases;
+    }
+
+    match(line: string, prefix: string): string[] | null {
+        const [command] = line.split(' ');
+        if (!command.startsWith(prefix) || !this.aliases.includes(command.slice(prefix.length).toLowerCase())) {
+            return null;
+        }
+        // Keep the alias so execute can tell which one was used
+        return line.slice(prefix.length).split(' ');
+    }
+
+    async execute([alias, ...params]: string[], context: BotCommandContext): Promise<void> {
+        const aliases = this.aliasesByChannel.get(context.broadcasterName.toLowerCase()) ?? [];
+        const match = aliases.find(entry => entry.alias === alias.toLowerCase());
+
+        if (match) {
+            await this.handler(match.category, params, context);
+        }
+    }
+}
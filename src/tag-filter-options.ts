@@ -0,0 +1,29 @@
+import { ChatInputCommandInteraction, SlashCommandStringOption } from "discord.js";
+import { TagFilter } from "./stream";
+
+export function categoryOption(option: SlashCommandStringOption) {
+    return option.setName('category')
+        .setDescription('solo tags con esta categoría o hashtag, ej. clip')
+        .setMaxLength(25)
+}
+
+export function moderatorOption(option: SlashCommandStringOption) {
+    return option.setName('moderator')
+        .setDescription('solo tags creados por este moderador')
+        .setMaxLength(25)
+}
+
+export function getTagFilter(interaction: ChatInputCommandInteraction): TagFilter {
+    return {
+        category: interaction.options.getString('category'),
+        moderator: interaction.options.getString('moderator')
+    };
+}
+
+export function describeTagFilter({ category, moderator }: TagFilter): string {
+    const parts = [
+        category ? `#${category.replace(/^#/, '')}` : null,
+        moderator ? `de ${moderator}` : null
+    ].filter(part => part);
+    return parts.length > 0 ? ` (${parts.join(' ')})` : '';
+}
@@ -0,0 +1,312 @@
+import { ApiClient } from '@twurple/api';
+import { AccessToken, getTokenInfo, RefreshingAuthProvider, refreshUserToken, TokenInfo } from '@twurple/auth';
+import { Bot, BotCommand } from '@twurple/easy-bot';
+import { EventSubWsListener } from '@twurple/eventsub-ws';
+import fs from 'fs/promises';
+import path from 'path';
+import { HealthResult } from './health-monitor';
+import { logger } from './logger';
+import { metrics } from './metrics';
+import { isSealedText, SealedText, SecretBox } from './secret-box';
+
+// The bot chats as its own account, the broadcaster's token is only used for what Twitch ties to the broadcaster:
+// VIPs, the channel info and the EventSub subscriptions to their stream.
+// Both may be the same account.
+export type TwitchIdentity = 'bot' | 'broadcaster';
+
+export const TWITCH_IDENTITIES: TwitchIdentity[] = ['bot', 'broadcaster'];
+
+export const IDENTITY_SCOPES: Record<TwitchIdentity, string[]> = {
+    bot: ['chat:read', 'chat:edit'],
+    broadcaster: ['channel:manage:vips', 'channel:manage:broadcast']
+};
+
+export interface LinkedIdentity {
+    identity: TwitchIdentity;
+    userId: string;
+    userName: string;
+    scopes: string[];
+}
+
+// The Twitch clients the bot runs on
+export interface TwitchConnection {
+    apiClient: ApiClient;
+    eventListener: EventSubWsListener;
+    createBot(channel: string, commands: BotCommand[]): Bot;
+    // Whether the tokens still work
+    checkToken(): Promise<HealthResult>;
+}
+
+// Creates the Twitch clients, from the saved tokens or from the fakes of the simulation
+export interface TwitchConnector {
+    // Null when the bot account is not linked yet
+    connect(): Promise<TwitchConnection | null>;
+    // Links the owner of the token to the identity, check it with verifyLinkedAccount first
+    saveTokens(account: LinkedIdentity, tokenData: AccessToken): Promise<void>;
+    getIdentities(): Promise<LinkedIdentity[]>;
+}
+
+interface StoredUser {
+    userName: string;
+    token: AccessToken;
+}
+
+// Tokens are stored per user id, the identities point to them
+interface StoredTokens {
+    identities: Partial<Record<TwitchIdentity, string>>;
+    users: Record<string, StoredUser>;
+}
+
+export interface TokenFileOptions {
+    tokenPath: string;
+    // Where older versions saved the tokens, they are moved to tokenPath when found there
+    legacyTokenPath?: string;
+    clientId: string;
+    clientSecret: string;
+    // Without it no token is saved, the accounts can't be linked
+    encryptionKey?: string;
+}
+
+// The token file that was read, from the current path or the legacy one
+interface TokenFile {
+    path: string;
+    text: string;
+}
+
+// Uses the tokens saved by the OAuth flows and saves them again every time they are refreshed
+export class TokenFileConnector implements TwitchConnector {
+    private tokenPath: string;
+    private clientId: string;
+    private clientSecret: string;
+    private box: SecretBox | null;
+
+    constructor(private options: TokenFileOptions) {
+        this.tokenPath = options.tokenPath;
+        this.clientId = options.clientId;
+        this.clientSecret = options.clientSecret;
+        // A key of the wrong length stops the bot on startup
+        try {
+            this.box = options.encryptionKey ? new SecretBox(options.encryptionKey) : null;
+        } catch (error) {
+            throw new Error(`Invalid TOKEN_ENCRYPTION_KEY: ${(error as Error).message}`);
+        }
+
+        if (!this.box) {
+            logger.error('TOKEN_ENCRYPTION_KEY is not set, the Twitch tokens can not be saved');
+        }
+    }
+
+    async connect(): Promise<TwitchConnection | null> {
+        const stored = await this.loadTokens();
+        const botId = stored.identities.bot;
+        const broadcasterId = stored.identities.broadcaster;
+        if (!botId || !stored.users[botId]) return null;
+
+        if (!broadcasterId) {
+            logger.warn('The broadcaster account is not linked, VIPs and stream events will not work');
+        }
+
+        const authProvider = new RefreshingAuthProvider({ clientId: this.clientId, clientSecret: this.clientSecret });
+        authProvider.onRefresh(async (userId, newTokenData) => {
+            metrics.tokenRefreshes.inc();
+            await this.updateTokens(stored => {
+                const user = stored.users[userId];
+                if (user) user.token = newTokenData;
+            });
+        });
+
+        // Only the bot has the chat intent, so the chat never runs as the broadcaster unless they are the same account
+        authProvider.addUser(botId, stored.users[botId].token, ['chat']);
+        if (broadcasterId && broadcasterId !== botId && stored.users[broadcasterId]) {
+            authProvider.addUser(broadcasterId, stored.users[broadcasterId].token);
+        }
+
+        const apiClient = new ApiClient({ authProvider });
+
+        return {
+            apiClient,
+            eventListener: new EventSubWsListener({ apiClient }),
+            createBot: (channel, commands) => new Bot({ authProvider, channels: [channel], commands }),
+            // Refreshes the tokens first when they expired
+            checkToken: async () => {
+                const details: string[] = [];
+
+                for (const identity of TWITCH_IDENTITIES) {
+                    const userId = stored.identities[identity];
+                    if (!userId || !authProvider.hasUser(userId)) {
+                        return { ok: false, detail: `Falta vincular la cuenta del ${describeIdentity(identity)}` };
+                    }
+
+                    const token = await authProvider.getAccessTokenForUser(userId);
+                    if (!token) {
+                        return { ok: false, detail: `No se pudo obtener el token del ${describeIdentity(identity)}` };
+                    }
+
+                    const info = await getTokenInfo(token.accessToken, this.clientId);
+                    details.push(`${describeIdentity(identity)}: ${info.userName}`);
+                }
+
+                return { ok: true, detail: `Tokens válidos (${details.join(', ')})` };
+            }
+        };
+    }
+
+    async saveTokens({ identity, userId, userName }: LinkedIdentity, tokenData: AccessToken): Promise<void> {
+        // The token replaces the one of every identity linked to the same account
+        const required = getRequiredScopes(await this.getIdentities(), identity, userId);
+        const missing = required.filter(scope => !tokenData.scope.includes(scope));
+        if (missing.length > 0) {
+            throw new Error(`The token of ${userName} is missing ${missing.join(', ')}`);
+        }
+
+        await this.updateTokens(stored => {
+            stored.users[userId] = { userName, token: tokenData };
+            stored.identities[identity] = userId;
+
+            // The tokens of an account that was replaced are not kept
+            const linkedIds = Object.values(stored.identities);
+            for (const storedId of Object.keys(stored.users)) {
+                if (!linkedIds.includes(storedId)) delete stored.users[storedId];
+            }
+        });
+
+        logger.info('Linked a Twitch account', { identity, user: userName });
+    }
+
+    async getIdentities(): Promise<LinkedIdentity[]> {
+        const stored = await this.loadTokens();
+
+        return TWITCH_IDENTITIES.flatMap(identity => {
+            const userId = stored.identities[identity];
+            const user = userId ? stored.users[userId] : null;
+            return userId && user ? [{ identity, userId, userName: user.userName, scopes: user.token.scope }] : [];
+        });
+    }
+
+    private async updateTokens(update: (stored: StoredTokens) => void) {
+        const stored = await this.loadTokens();
+        update(stored);
+        await this.writeTokens(stored);
+    }
+
+    private async writeTokens(stored: StoredTokens): Promise<void> {
+        if (!this.box) {
+            throw new Error('Set TOKEN_ENCRYPTION_KEY to save the Twitch tokens');
+        }
+        const text = JSON.stringify(this.box.seal(JSON.stringify(stored)));
+
+        try {
+            // Only the user running the bot may read them
+            await fs.writeFile(this.tokenPath, text, { mode: 0o600 });
+            await fs.chmod(this.tokenPath, 0o600);
+            logger.info('Tokens saved');
+        } catch (error) {
+            logger.error('Could not save the tokens', { error });
+            throw error;
+        }
+    }
+
+    private async loadTokens(): Promise<StoredTokens> {
+        const file = await this.readTokenFile();
+        if (!file) {
+            logger.info('No saved tokens found');
+            return { identities: {}, users: {} };
+        }
+
+        let data: StoredTokens | AccessToken;
+        let sealed: boolean;
+        try {
+            const parsed = JSON.parse(file.text);
+            sealed = isSealedText(parsed);
+            data = isSealedText(parsed) ? JSON.parse(this.openSealed(parsed)) : parsed;
+        } catch (error) {
+            logger.error('Could not read the saved tokens, link the accounts again', { path: file.path, error });
+            return { identities: {}, users: {} };
+        }
+
+        const legacy = 'accessToken' in data;
+        const stored = 'accessToken' in data ? await this.upgradeLegacyToken(data) : data;
+
+        // Tokens of older versions, from the old path or saved unencrypted are written again the current way.
+        // Without the key they are used as they are.
+        const moved = path.resolve(file.path) !== path.resolve(this.tokenPath);
+        if (this.box && (legacy || moved || !sealed) && Object.keys(stored.users).length > 0) {
+            await this.writeTokens(stored);
+            if (moved) await fs.rm(file.path, { force: true });
+            logger.info('Saved the tokens again', { from: file.path, to: this.tokenPath });
+        }
+
+        return stored;
+    }
+
+    private async readTokenFile(): Promise<TokenFile | null> {
+        for (const filePath of [this.tokenPath, this.options.legacyTokenPath]) {
+            if (!filePath) continue;
+            try {
+                return { path: filePath, text: await fs.readFile(filePath, 'utf-8') };
+            } catch (error) {
+                // Not there, try the next one
+            }
+        }
+        return null;
+    }
+
+    private openSealed(sealed: SealedText): string {
+        if (!this.box) {
+            throw new Error('The tokens are encrypted, set TOKEN_ENCRYPTION_KEY');
+        }
+        return this.box.open(sealed);
+    }
+
+    // tokens.json used to hold a single token, used for the chat and as the broadcaster.
+    // It is refreshed to find out whose it is and linked to both identities.
+    private async upgradeLegacyToken(legacy: AccessToken): Promise<StoredTokens> {
+        try {
+            const token = legacy.refreshToken
+                ? await refreshUserToken(this.clientId, this.clientSecret, legacy.refreshToken)
+                : legacy;
+            const { userId, userName } = await getTokenInfo(token.accessToken, this.clientId);
+            if (!userId || !userName) throw new Error('The token does not belong to a user');
+
+            logger.info('Upgraded the saved token, it is used for the bot and the broadcaster', { user: userName });
+            return {
+                identities: { bot: userId, broadcaster: userId },
+                users: { [userId]: { userName, token } }
+            };
+        } catch (error) {
+            logger.error('Could not upgrade the saved token, link the accounts again', { error });
+            return { identities: {}, users: {} };
+        }
+    }
+}
+
+// One account may be linked as both identities, it then has a single token that needs the scopes of both
+export function getRequiredScopes(identities: LinkedIdentity[], identity: TwitchIdentity, userId: string): string[] {
+    const sharing = identities
+        .filter(linked => linked.userId === userId && linked.identity !== identity)
+        .map(linked => linked.identity);
+
+    return [...new Set([identity, ...sharing].flatMap(shared => IDENTITY_SCOPES[shared]))];
+}
+
+// Returns what is wrong with the account that was authorized for the identity, null when it may be linked.
+// The broadcaster must be TWITCH_BROADCASTER, the bot may be any account unless its name is configured.
+export function verifyLinkedAccount(identity: TwitchIdentity, info: TokenInfo, expectedUserName: string | undefined): string | null {
+    if (!info.userId || !info.userName) {
+        return 'The token does not belong to a user';
+    }
+    if (expectedUserName && info.userName.toLowerCase() !== expectedUserName.toLowerCase()) {
+        return `Logged in as ${info.userName}, the ${describeIdentity(identity)} account is ${expectedUserName}`;
+    }
+
+    const missing = IDENTITY_SCOPES[identity].filter(scope => !info.scopes.includes(scope));
+    if (missing.length > 0) {
+        return `The ${describeIdentity(identity)} account did not grant ${missing.join(', ')}`;
+    }
+
+    return null;
+}
+
+export function describeIdentity(identity: TwitchIdentity): string {
+    return identity === 'bot' ? 'bot' : 'streamer';
+}
@@ -0,0 +1,186 @@
+import { ApiClient, HelixUser } from "@twurple/api";
+import { VipGrant, VipRepository } from "./storage/vip-repository";
+import { DURATION_UNITS } from "./duration";
+import { AuditRecorder } from "./audit-log";
+import { AuditPlatform } from "./storage/audit-repository";
+
+export const VIP_EXPIRY_CHECK_MS = 60 * 1000;
+
+// Who removes the VIPs that expire
+export const VIP_EXPIRY_REMOVER = 'botshi';
+
+export type VipGrantResult =
+    | { status: 'granted' | 'updated', grant: VipGrant }
+    | { status: 'not-found' };
+
+export type VipRemoveResult = 'removed' | 'not-vip' | 'not-found';
+
+// "6 días", "3 horas", "permanente"
+export function describeVipExpiry(grant: VipGrant, now: Date = new Date()): string {
+    if (!grant.expiresAt) return 'permanente';
+
+    const remaining = Math.max(grant.expiresAt.getTime() - now.getTime(), 0);
+    const days = Math.floor(remaining / DURATION_UNITS.d);
+    const hours = Math.floor(remaining / DURATION_UNITS.h);
+    const minutes = Math.ceil(remaining / DURATION_UNITS.m);
+
+    if (days > 0) return `${days} ${days === 1 ? 'día' : 'días'}`;
+    if (hours > 0) return `${hours} ${hours === 1 ? 'hora' : 'horas'}`;
+    return `${minutes} ${minutes === 1 ? 'minuto' : 'minutos'}`;
+}
+
+// Gives and removes VIPs through the Twitch API and keeps every VIP given in the ledger,
+// so VIPs with an expiry are removed on time even after a restart.
+export class VipManager {
+    private timer: NodeJS.Timeout | null = null;
+    private removing: Promise<void> | null = null;
+
+    constructor(
+        private getApiClient: () => ApiClient | null,
+        private repository: VipRepository,
+        private channel: string,
+        private audit: AuditRecorder,
+        private reportError: (error: unknown) => void,
+        private checkMs: number = VIP_EXPIRY_CHECK_MS
+    ) { }
+
+    // Removes the VIPs that expired while the bot was offline right away
+    start() {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.checkExpired(), this.checkMs);
+        this.checkExpired();
+    }
+
+    stop() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    // Without a duration the VIP never expires. Giving VIP again to a VIP changes their expiry.
+    async grant(userName: string, durationMs: number | null, grantedBy: string, platform: AuditPlatform): Promise<VipGrantResult> {
+        const apiClient = this.requireApiClient();
+        const [broadcaster, user] = await this.getUsers(apiClient, userName);
+        if (!user) return { status: 'not-found' };
+
+        const now = new Date();
+        const expiresAt = durationMs ? new Date(now.getTime() + durationMs) : null;
+        // Also when the ledger says they are VIP, the VIP may have been removed on Twitch by hand
+        try {
+            await apiClient.channels.addVip(broadcaster, user);
+        } catch (error) {
+            // VIPs given from the Twitch chat are not in the ledger, they are added to it
+            if (!isAlreadyVipError(error)) throw error;
+        }
+
+        const existing = await this.repository.getActiveGrant(this.channel, user.id);
+
+        if (existing) {
+            const grant = { ...existing, expiresAt };
+            await this.repository.setExpiry(existing.id!, expiresAt);
+            await this.audit({ platform, action: 'vip-add', actor: grantedBy, target: user.name, detail: `Nuevo vencimiento: ${describeVipExpiry(grant, now)}` });
+            return { status: 'updated', grant };
+        }
+
+        const grant = await this.repository.addGrant({
+            channel: this.channel,
+            userId: user.id,
+            userName: user.name,
+            grantedBy,
+            grantedAt: now,
+            expiresAt,
+            removedAt: null,
+            removedBy: null
+        });
+        await this.audit({ platform, action: 'vip-add', actor: grantedBy, target: user.name, detail: `Duración: ${describeVipExpiry(grant, now)}` });
+        return { status: 'granted', grant };
+    }
+
+    async remove(userName: string, removedBy: string, platform: AuditPlatform): Promise<VipRemoveResult> {
+        const apiClient = this.requireApiClient();
+        const [broadcaster, user] = await this.getUsers(apiClient, userName);
+        if (!user) return 'not-found';
+
+        let wasVip = true;
+        try {
+            await apiClient.channels.removeVip(broadcaster, user);
+        } catch (error) {
+            if (!isNotVipError(error)) throw error;
+            wasVip = false;
+        }
+
+        const grant = await this.repository.getActiveGrant(this.channel, user.id);
+        if (grant) {
+            await this.repository.markRemoved(grant.id!, removedBy, new Date());
+        }
+        if (wasVip) {
+            await this.audit({ platform, action: 'vip-remove', actor: removedBy, target: user.name });
+        }
+
+        return wasVip ? 'removed' : 'not-vip';
+    }
+
+    async getVips(): Promise<VipGrant[]> {
+        return this.repository.getActiveGrants(this.channel);
+    }
+
+    // A slow Twitch API may take longer than the interval, a check is skipped while the previous one is running
+    private checkExpired(): Promise<void> {
+        if (!this.removing) {
+            this.removing = this.removeExpired().finally(() => this.removing = null);
+        }
+        return this.removing;
+    }
+
+    private async removeExpired() {
+        const apiClient = this.getApiClient();
+        if (!apiClient) return;
+
+        try {
+            const expired = await this.repository.getExpiredGrants(new Date());
+
+            for (const grant of expired) {
+                try {
+                    const broadcaster = await apiClient.users.getUserByName(grant.channel);
+                    if (!broadcaster) throw new Error(`Could not find user ${grant.channel}`);
+
+                    await apiClient.channels.removeVip(broadcaster, grant.userId);
+                } catch (error) {
+                    // Someone removed the VIP already, it's still marked as expired
+                    if (!isNotVipError(error)) {
+                        this.reportError(error);
+                        continue;
+                    }
+                }
+
+                await this.repository.markRemoved(grant.id!, VIP_EXPIRY_REMOVER, new Date());
+                await this.audit({ platform: 'bot', action: 'vip-expire', actor: VIP_EXPIRY_REMOVER, target: grant.userName });
+            }
+        } catch (error) {
+            this.reportError(error);
+        }
+    }
+
+    private requireApiClient(): ApiClient {
+        const apiClient = this.getApiClient();
+        if (!apiClient) throw new Error('The Twitch API is not connected');
+        return apiClient;
+    }
+
+    private async getUsers(apiClient: ApiClient, userName: string): Promise<[HelixUser, HelixUser | null]> {
+        const [broadcaster, user] = await Promise.all([
+            apiClient.users.getUserByName(this.channel),
+            apiClient.users.getUserByName(userName.replace(/^@/, '').toLowerCase())
+        ]);
+        if (!broadcaster) throw new Error(`Could not find user ${this.channel}`);
+        return [broadcaster, user];
+    }
+}
+
+// Twitch answers 422 with these messages
+function isAlreadyVipError(error: unknown): boolean {
+    return error instanceof Error && /already a vip/i.test(error.message);
+}
+
+function isNotVipError(error: unknown): boolean {
+    return error instanceof Error && /not a vip/i.test(error.message);
+}
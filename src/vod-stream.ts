@@ -0,0 +1,120 @@
+import { ChatInputCommandInteraction } from "discord.js";
+import { HelixVideo } from "@twurple/api";
+import { getTwitchVodFromId, loadStream, streamRepository } from ".";
+import { getStreamOffset, recalculateTag, Stream, StreamTag } from "./stream";
+import { DEFAULT_FRAME_RATE, ExportContext } from "./exporters";
+import { logger } from "./logger";
+
+// A vod is usually created a few seconds after its stream starts
+const VOD_START_TOLERANCE_MS = 2 * 60 * 1000;
+
+export interface VodStream {
+    vod: HelixVideo;
+    // The stream the vod belongs to, the first one when the vod covers several
+    stream: Stream;
+    // Every stream covered by the vod, ie. when the stream dropped and restarted
+    segments: Stream[];
+    // Tags of every segment, timed from the start of the vod
+    tags: StreamTag[];
+}
+
+// Finds the stored streams for a vod. Returns the message to show the user when there are none.
+export async function loadVodStream(vodid: string): Promise<VodStream | string> {
+    const vod = await getTwitchVodFromId(vodid)
+
+    if (!vod) {
+        return "Ese vod no existe";
+    }
+
+    logger.debug('Found the vod, looking for its tags', { vodId: vodid })
+
+    const segments = await findVodSegments(vod);
+
+    if (segments.length === 0) {
+        logger.info('No stream found for the vod', { vodId: vod.id, streamId: vod.streamId, created: vod.creationDate.toISOString() })
+        return vod.streamId ? "No se encontraron tags para ese vod." : "Ese vod no pertenece a un stream.";
+    }
+
+    logger.debug('Loading the tags of the vod streams', { vodId: vod.id, streamIds: segments.map(segment => segment.id) })
+
+    const stream = segments.find(segment => segment.id === vod.streamId) ?? segments[0];
+
+    return { vod, stream, segments, tags: getVodTags(segments) };
+}
+
+// Same as loadVodStream for the `vodid` option. Replies to the interaction and returns null when there is no stream.
+export async function findVodStream(interaction: ChatInputCommandInteraction): Promise<VodStream | null> {
+    const found = await loadVodStream(interaction.options.getString('vodid', true))
+
+    if (typeof found === 'string') {
+        await interaction.reply(found);
+        return null;
+    }
+
+    return found;
+}
+
+export function exportContextForVod(vod: HelixVideo, frameRate: number = DEFAULT_FRAME_RATE): ExportContext {
+    return {
+        title: vod.title,
+        vodUrl: vod.url,
+        durationSeconds: vod.durationInSeconds,
+        frameRate
+    };
+}
+
+// The stream of the vod plus, for the vod of a broadcast, every stored stream that started while it was recording.
+// Highlights and uploads are created long after their stream, only their own stream is used.
+async function findVodSegments(vod: HelixVideo): Promise<Stream[]> {
+    const segments = vod.type === 'archive' ? await findStreamsDuringVod(vod) : [];
+
+    const knownStreamId = vod.streamId ?? await streamRepository.getStreamIdForVod(vod.id);
+    if (knownStreamId && !segments.some(segment => segment.id === knownStreamId)) {
+        const known = await loadStream(knownStreamId);
+        if (known) segments.push(known);
+    }
+
+    return segments.sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+}
+
+async function findStreamsDuringVod(vod: HelixVideo): Promise<Stream[]> {
+    const vodStart = vod.creationDate.getTime();
+    const vodEnd = vodStart + vod.durationInSeconds * 1000;
+
+    const candidates = await streamRepository.findStreamsStartedBetween(
+        new Date(vodStart - VOD_START_TOLERANCE_MS),
+        new Date(vodEnd)
+    );
+    // Skip a previous stream that ended before this vod started
+    return candidates.filter(stream => !stream.endTime || new Date(stream.endTime).getTime() > vodStart);
+}
+
+// The tag as it is stored, timed from the start of its own segment instead of the start of the vod
+export function findSegmentTag({ segments }: VodStream, tagId: number): StreamTag | null {
+    for (const segment of segments) {
+        const tag = segment.tags.find(tag => tag.id === tagId);
+        if (tag) return tag;
+    }
+    return null;
+}
+
+// The vod only contains the time each segment was live, so every segment starts where the previous one ended.
+// Each segment keeps its own delay.
+export function getVodTags(segments: Stream[]): StreamTag[] {
+    let elapsed = 0;
+    const tags: StreamTag[] = [];
+
+    segments.forEach((segment, index) => {
+        const start = new Date(segment.startTime).getTime();
+        const vodStart = new Date(start - elapsed);
+
+        tags.push(...segment.tags.map(tag => recalculateTag(tag, vodStart, getStreamOffset(segment))));
+
+        const end = segment.endTime ?? segments[index + 1]?.startTime;
+        if (end) {
+            elapsed += new Date(end).getTime() - start;
+        }
+    });
+
+    return tags;
+}